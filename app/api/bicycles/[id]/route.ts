@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBicycleDetail } from '@/lib/bicycleDetail';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const bicycle = await getBicycleDetail(id);
+    if (!bicycle) {
+      return NextResponse.json({ success: false, error: 'Bicycle not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: bicycle });
+  } catch (error) {
+    console.error('Error fetching bicycle:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch bicycle' },
+      { status: 500 }
+    );
+  }
+}
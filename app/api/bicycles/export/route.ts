@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { searchIndex } from '@/lib/bicycleSearch';
+import { apiError, errorResponse } from '@/lib/apiErrors';
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS, exportStream, type ExportFormat } from '@/lib/export';
+
+// Every bicycle matching the same filters as /api/bicycles, as a file download.
+// Like /api/bicycles, a file that may be incomplete says so: X-Degraded and
+// X-Last-Sync-At headers.
+export async function GET(request: NextRequest) {
+  const format = (request.nextUrl.searchParams.get('format') || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return errorResponse(apiError('INVALID_FILTER', `Invalid format, use one of: ${EXPORT_FORMATS.join(', ')}`));
+  }
+
+  try {
+    const { bicycles, nearError, dateError, lastSyncAt, degraded, failure } = await searchIndex(request.nextUrl.searchParams);
+    const filterError = nearError || dateError;
+    if (filterError) {
+      return errorResponse(apiError('INVALID_FILTER', filterError));
+    }
+    // Nothing was ever fetched: report why instead of an empty file
+    if (failure) {
+      return errorResponse(failure);
+    }
+
+    const fileName = `bicicletas-${new Date().toISOString().substring(0, 10)}.${format}`;
+
+    return new Response(exportStream(bicycles, format), {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+        'X-Degraded': String(degraded),
+        ...(lastSyncAt && { 'X-Last-Sync-At': lastSyncAt }),
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting bicycles:', error);
+    return errorResponse(apiError('INTERNAL_ERROR', 'Failed to export bicycles'));
+  }
+}
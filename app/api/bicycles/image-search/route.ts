@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import sharp from 'sharp';
+import type { BicycleTipo } from '@/types/bicycle';
+import { findSimilarBicycles, getIndexedImageCount } from '@/lib/imageIndex';
+import { createRateLimiter, rateLimit } from '@/lib/rateLimit';
+
+// Each search decodes the photo and compares it with the whole index
+const limiter = createRateLimiter({
+  limit: Number(process.env.IMAGE_SEARCH_RATE_LIMIT) || 10,
+  windowMs: 60 * 1000,
+});
+
+const MAX_PHOTO_BYTES = 8 * 1024 * 1024;
+// Room for the other fields and the multipart boundaries
+const MAX_BODY_BYTES = MAX_PHOTO_BYTES + 64 * 1024;
+// Larger images are refused before they are decoded
+const MAX_PHOTO_PIXELS = 50_000_000;
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 100;
+
+function parseTipo(value: FormDataEntryValue | null): BicycleTipo {
+  return value === 'desaparecidas' || value === 'todas' ? value : 'localizadas';
+}
+
+// Whether sharp can decode the upload; anything it cannot read is the
+// client's mistake, not ours
+async function isReadableImage(photo: Buffer): Promise<boolean> {
+  try {
+    await sharp(photo, { failOn: 'none', limitInputPixels: MAX_PHOTO_PIXELS }).resize(8, 8).raw().toBuffer();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Multipart form: foto (image file), tipo, limit. Returns the bicycles whose
+// photo looks most like it, best first.
+export async function POST(request: NextRequest) {
+  const limited = rateLimit(request, limiter);
+  if (limited) return limited;
+
+  // Refuse large uploads before reading them into memory
+  const length = Number(request.headers.get('content-length'));
+  if (!length) {
+    return NextResponse.json({ success: false, error: 'Content-Length required' }, { status: 411 });
+  }
+  if (length > MAX_BODY_BYTES) {
+    return NextResponse.json({ success: false, error: 'Photo too large (max 8 MB)' }, { status: 413 });
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Expected multipart/form-data' }, { status: 400 });
+  }
+
+  const foto = form.get('foto');
+  if (!(foto instanceof File) || foto.size === 0) {
+    return NextResponse.json({ success: false, error: 'Missing foto' }, { status: 400 });
+  }
+  if (foto.size > MAX_PHOTO_BYTES) {
+    return NextResponse.json({ success: false, error: 'Photo too large (max 8 MB)' }, { status: 413 });
+  }
+
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number.parseInt(String(form.get('limit') || ''), 10) || DEFAULT_LIMIT));
+
+  const photo = Buffer.from(await foto.arrayBuffer());
+  if (!(await isReadableImage(photo))) {
+    return NextResponse.json({ success: false, error: 'Unsupported or corrupt image' }, { status: 400 });
+  }
+
+  try {
+    const matches = await findSimilarBicycles(photo, { tipo: parseTipo(form.get('tipo')) }, limit);
+
+    return NextResponse.json({
+      success: true,
+      count: matches.length,
+      indexed: await getIndexedImageCount(),
+      data: matches,
+    });
+  } catch (error) {
+    console.error('Error searching by photo:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to search by photo' },
+      { status: 500 }
+    );
+  }
+}
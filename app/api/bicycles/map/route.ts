@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { BicycleMapResponse } from '@/types/bicycle';
+import { searchIndex } from '@/lib/bicycleSearch';
+import { groupByLocation } from '@/lib/gazetteer';
+import { apiError, errorResponse } from '@/lib/apiErrors';
+import { cacheHeaders } from '@/lib/responseCache';
+
+// Every bicycle matching the same filters as /api/bicycles, grouped by depósito / place
+export async function GET(request: NextRequest) {
+  try {
+    const { bicycles, nearError, dateError, lastSyncAt, degraded, syncing, source, failure, cache } =
+      await searchIndex(request.nextUrl.searchParams);
+    const filterError = nearError || dateError;
+    if (filterError) {
+      return errorResponse(apiError('INVALID_FILTER', filterError));
+    }
+    if (failure) {
+      return errorResponse(failure);
+    }
+
+    const { locations, unlocated } = groupByLocation(bicycles);
+
+    return NextResponse.json({
+      success: true,
+      count: locations.length,
+      total: bicycles.length,
+      unlocated,
+      data: locations,
+      lastSyncAt,
+      degraded,
+      syncing,
+      source,
+    } satisfies BicycleMapResponse, { headers: cacheHeaders(cache) });
+  } catch (error) {
+    console.error('Error building bicycle map:', error);
+    return errorResponse(apiError('INTERNAL_ERROR', 'Failed to build bicycle map'));
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkSourcesHealth, getSources } from '@/lib/sources/registry';
+import { getSourceDiagnostics } from '@/lib/sources/diagnostics';
+import { getApiSession } from '@/lib/sources/apiSession';
+import { getSyncStatus } from '@/lib/bicycleStore';
+import { sourceStatus } from '@/lib/bicycleSearch';
+import { requireSyncToken } from '@/lib/auth';
+
+// When and where the REST API session was captured; the credentials stay private
+function apiSessionStatus() {
+  const session = getApiSession();
+  return session && { capturedAt: session.capturedAt, endpoint: session.endpoint, headers: Object.keys(session.headers) };
+}
+
+// Diagnostics of the biciregistro.es sources: the outcome of their recent
+// requests per endpoint / URL and the state of the last sync. With ?probe=1
+// every enabled source is also checked live, which hits biciregistro.es, so
+// the probe needs SYNC_TOKEN like POST /api/sync.
+export async function GET(request: NextRequest) {
+  const probe = request.nextUrl.searchParams.get('probe') === '1';
+  if (probe) {
+    const unauthorized = requireSyncToken(request);
+    if (unauthorized) return unauthorized;
+  }
+
+  try {
+    const sync = await getSyncStatus();
+
+    return NextResponse.json({
+      success: true,
+      degraded: sourceStatus(sync, { tipo: 'todas' }).degraded,
+      enabled: getSources().map(source => source.name),
+      sync,
+      sources: getSourceDiagnostics(),
+      apiSession: apiSessionStatus(),
+      ...(probe && { probes: await checkSourcesHealth() }),
+    });
+  } catch (error) {
+    console.error('Error reading source diagnostics:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read source diagnostics' },
+      { status: 500 }
+    );
+  }
+}
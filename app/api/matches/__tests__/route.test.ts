@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import type { Bicycle, BicycleMatch } from '@/types/bicycle';
+
+const found: Bicycle = {
+  id: 'localizada-1',
+  marca: 'Orbea',
+  modelo: 'Alma',
+  color: 'Rojo',
+  numeroSerie: 'WTU123456',
+  imagen: '',
+  ciudad: 'Madrid',
+  estado: 'localizada',
+  fechaLocalizacion: '2024-05-10',
+};
+
+const report = {
+  id: 'member-42',
+  marca: 'Orbea',
+  modelo: 'Alma',
+  color: 'Rojo',
+  numeroSerie: 'WTU-123456',
+  lugarRobo: 'Calle Mayor 1, portal',
+  descripcion: 'Llamar a Ana, 600 000 000',
+  fechaRobo: '2024-05-01',
+  ciudad: 'Madrid',
+};
+
+describe('GET /api/matches', () => {
+  let dir: string;
+  let route: typeof import('@/app/api/matches/route');
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'matches-'));
+    vi.stubEnv('BICYCLE_STORE_PATH', path.join(dir, 'bicycles.json'));
+    vi.stubEnv('MEMBER_REPORTS_PATH', path.join(dir, 'member-reports.json'));
+    vi.stubEnv('ADMIN_TOKEN', 'secret');
+    vi.resetModules();
+
+    const store = await import('@/lib/bicycleStore');
+    await store.saveSyncResult([found], '2024-05-11T10:00:00.000Z');
+    const { importMemberReports } = await import('@/lib/memberReports');
+    await importMemberReports([report], true);
+    route = await import('@/app/api/matches/route');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // What MatchesPanel asks for, without any credentials
+  const panelRequest = (bicycleId: string, headers?: Record<string, string>) =>
+    new NextRequest(`http://localhost/api/matches?bicycleId=${encodeURIComponent(bicycleId)}`, { headers });
+
+  it('shows the public panel member report matches without their personal fields', async () => {
+    const response = await route.GET(panelRequest(found.id));
+    const { data } = await response.json() as { data: BicycleMatch[] };
+
+    expect(data).toHaveLength(1);
+    expect(data[0].reasons).toContain('Nº de serie idéntico');
+    expect(data[0].bicycle).toMatchObject({ marca: 'Orbea', ciudad: 'Madrid', origen: 'socio' });
+    expect(data[0].bicycle.id).not.toBe('socio-member-42');
+    for (const field of ['numeroSerie', 'lugarRobo', 'descripcion'] as const) {
+      expect(data[0].bicycle[field]).toBeUndefined();
+    }
+  });
+
+  it('keeps member reports whole for admins and out of public lookups by id', async () => {
+    const admin = await route.GET(panelRequest(found.id, { authorization: 'Bearer secret' }));
+    const { data } = await admin.json() as { data: BicycleMatch[] };
+    expect(data[0].bicycle).toMatchObject({ id: 'socio-member-42', numeroSerie: 'WTU-123456' });
+
+    expect((await route.GET(panelRequest('socio-member-42'))).status).toBe(404);
+  });
+});
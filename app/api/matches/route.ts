@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStoredBicycle, getStoredBicycles } from '@/lib/bicycleStore';
+import { getMemberReports, redactMemberReport } from '@/lib/memberReports';
+import { findMatches } from '@/lib/matching';
+import { isAdminRequest } from '@/lib/auth';
+
+// Possible matches between a found bicycle and reported stolen ones (or vice
+// versa), members' own reports included. Those are private: without
+// ADMIN_TOKEN they are only matched against, never looked up by id, and the
+// matches show them redacted.
+export async function GET(request: NextRequest) {
+  try {
+    const bicycleId = request.nextUrl.searchParams.get('bicycleId');
+
+    if (!bicycleId) {
+      return NextResponse.json({ success: false, error: 'Missing bicycleId' }, { status: 400 });
+    }
+
+    const admin = isAdminRequest(request);
+    const memberReports = await getMemberReports();
+    const bicycle = await getStoredBicycle(bicycleId)
+      || (admin ? memberReports.find(report => report.id === bicycleId) : undefined);
+
+    if (!bicycle) {
+      return NextResponse.json({ success: false, error: 'Bicycle not found' }, { status: 404 });
+    }
+
+    const candidates = [...await getStoredBicycles(), ...memberReports];
+    const matches = findMatches(bicycle, candidates).map(match =>
+      admin || match.bicycle.origen !== 'socio'
+        ? match
+        : { ...match, bicycle: redactMemberReport(match.bicycle) }
+    );
+
+    return NextResponse.json({
+      success: true,
+      count: matches.length,
+      data: matches,
+    });
+  } catch (error) {
+    console.error('Error finding matches:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to find matches' },
+      { status: 500 }
+    );
+  }
+}
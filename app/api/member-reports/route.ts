@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMemberReports, importMemberReports } from '@/lib/memberReports';
+import { requireAdminToken } from '@/lib/auth';
+
+// Stolen bicycles reported by our members, used as extra candidates for matching.
+// Both reading and importing them need ADMIN_TOKEN as a Bearer token.
+
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdminToken(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const reports = await getMemberReports();
+    return NextResponse.json({ success: true, count: reports.length, data: reports });
+  } catch (error) {
+    console.error('Error reading member reports:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read member reports' },
+      { status: 500 }
+    );
+  }
+}
+
+// Import a JSON array of reports. Add ?replace=true to drop the previous list.
+export async function POST(request: NextRequest) {
+  const unauthorized = requireAdminToken(request);
+  if (unauthorized) return unauthorized;
+
+  let items: unknown;
+  try {
+    items = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  if (!Array.isArray(items)) {
+    return NextResponse.json({ success: false, error: 'Expected a JSON array' }, { status: 400 });
+  }
+
+  try {
+    const replace = request.nextUrl.searchParams.get('replace') === 'true';
+    const result = await importMemberReports(items, replace);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error importing member reports:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to import member reports' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,81 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { indexImage } from '@/lib/imageIndex';
+import { fetchImage, isAllowedImageUrl } from '@/lib/imageFetch';
+import { createRateLimiter, rateLimit } from '@/lib/rateLimit';
+import { apiError, errorResponse } from '@/lib/apiErrors';
+import {
+  DEFAULT_QUALITY,
+  FORMAT_CONTENT_TYPES,
+  createVariant,
+  imageEtag,
+  lookupOriginal,
+  readOriginal,
+  readVariant,
+  storeOriginal,
+  variantWidth,
+  type ImageFormat,
+  type ImageVariant,
+  type OriginalImage,
+} from '@/lib/imageCache';
+
+// A results page loads a few dozen thumbnails; this leaves room for browsing
+const limiter = createRateLimiter({
+  limit: Number(process.env.IMAGE_PROXY_RATE_LIMIT) || 300,
+  windowMs: 60 * 1000,
+});
+
+const MIN_QUALITY = 30;
+const MAX_QUALITY = 95;
+
+type VariantSize = Omit<ImageVariant, 'format'>;
+
+// w / q parameters: null without them (the original is served untouched)
+function parseSize(searchParams: URLSearchParams): VariantSize | null | 'invalid' {
+  const w = searchParams.get('w');
+  const q = searchParams.get('q');
+  if (w === null && q === null) return null;
+
+  const width = w === null ? undefined : Number(w);
+  const quality = q === null ? DEFAULT_QUALITY : Number(q);
+  if ((width !== undefined && !(Number.isInteger(width) && width > 0)) || !Number.isInteger(quality)) {
+    return 'invalid';
+  }
+
+  return {
+    width: width && variantWidth(width),
+    quality: Math.min(MAX_QUALITY, Math.max(MIN_QUALITY, quality)),
+  };
+}
+
+// Output format of a variant: the best one the browser accepts, else the
+// original's own (PNG stays PNG, anything else becomes JPEG)
+function negotiateFormat(accept: string, original: OriginalImage): ImageFormat {
+  if (accept.includes('image/avif')) return 'avif';
+  if (accept.includes('image/webp')) return 'webp';
+  return original.contentType.includes('png') ? 'png' : 'jpeg';
+}
+
+function imageResponse(body: Buffer | null, contentType: string, etag: string, isVariant: boolean): NextResponse {
+  const headers: Record<string, string> = {
+    'Content-Type': contentType,
+    'Cache-Control': 'public, max-age=86400', // Cache for 24 hours
+    'ETag': etag,
+    // Served from our origin: never sniffed or run as anything but an image
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': "default-src 'none'",
+  };
+  // The format of a variant depends on the Accept header
+  if (isVariant) headers['Vary'] = 'Accept';
+
+  return body
+    ? new NextResponse(new Uint8Array(body), { status: 200, headers })
+    : new NextResponse(null, { status: 304, headers });
+}
 
 export async function GET(request: NextRequest) {
+  const limited = rateLimit(request, limiter);
+  if (limited) return limited;
+
   try {
     // Get the image URL from the query parameter
     const searchParams = request.nextUrl.searchParams;
@@ -10,40 +85,72 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Missing image URL' }, { status: 400 });
     }
 
-    // Validate that it's from biciregistro.es
-    if (!imageUrl.includes('biciregistro.es')) {
+    // Only https photos from biciregistro.es itself
+    if (!isAllowedImageUrl(imageUrl)) {
       return NextResponse.json({ error: 'Invalid image source' }, { status: 400 });
     }
 
-    // Fetch the image from biciregistro.es
-    const response = await fetch(imageUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
-        'Accept': 'image/webp,image/apng,image/*,*/*;q=0.8',
-        'Referer': 'https://www.biciregistro.es/',
-        'Accept-Language': 'es-ES,es;q=0.9,en-US;q=0.8,en;q=0.7',
-      },
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: `Failed to fetch image: ${response.statusText}` },
-        { status: response.status }
-      );
+    const size = parseSize(searchParams);
+    if (size === 'invalid') {
+      return NextResponse.json({ error: 'Invalid image width or quality' }, { status: 400 });
+    }
+
+    const accept = request.headers.get('accept') || '';
+    const variantOf = (original: OriginalImage): ImageVariant | undefined =>
+      size ? { ...size, format: negotiateFormat(accept, original) } : undefined;
+
+    let original = await lookupOriginal(imageUrl);
+    if (original) {
+      const variant = variantOf(original);
+      const etag = imageEtag(original, variant);
+      const contentType = variant ? FORMAT_CONTENT_TYPES[variant.format] : original.contentType;
+
+      // Revalidation of a copy the browser already has
+      const ifNoneMatch = request.headers.get('if-none-match');
+      if (ifNoneMatch && ifNoneMatch.split(/\s*,\s*/).includes(etag)) {
+        return imageResponse(null, contentType, etag, !!variant);
+      }
+
+      const cached = variant ? await readVariant(original, variant) : await readOriginal(original);
+      if (cached) return imageResponse(cached, contentType, etag, !!variant);
+    }
+
+    // The original is needed: read it from the cache, or fetch it from
+    // biciregistro.es when it was never cached or was evicted
+    let body = original && await readOriginal(original);
+    if (!body) {
+      const result = await fetchImage(imageUrl, {
+        headers: {
+          'Accept': 'image/webp,image/apng,image/*,*/*;q=0.8',
+          'Referer': 'https://www.biciregistro.es/',
+          'Accept-Language': 'es-ES,es;q=0.9,en-US;q=0.8,en;q=0.7',
+        },
+      });
+
+      // The upstream queue is full or the registry asked us to slow down
+      if (!result.ok && result.status === 429) {
+        return errorResponse(apiError('RATE_LIMITED', result.error, result.retryAfter));
+      }
+      if (!result.ok) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
+      }
+
+      const downloaded = result.body;
+      body = downloaded;
+      original = await storeOriginal(imageUrl, downloaded, result.contentType);
+
+      // Remember what the photo looks like for the search by photo
+      after(() => indexImage(imageUrl, downloaded));
+    }
+
+    const stored = original as OriginalImage;
+    const variant = variantOf(stored);
+    if (!variant) {
+      return imageResponse(body, stored.contentType, imageEtag(stored), false);
     }
 
-    // Get the image data
-    const imageBuffer = await response.arrayBuffer();
-    const contentType = response.headers.get('content-type') || 'image/jpeg';
-
-    // Return the image with proper headers
-    return new NextResponse(imageBuffer, {
-      status: 200,
-      headers: {
-        'Content-Type': contentType,
-        'Cache-Control': 'public, max-age=86400', // Cache for 24 hours
-      },
-    });
+    const resized = await createVariant(stored, body, variant);
+    return imageResponse(resized, FORMAT_CONTENT_TYPES[variant.format], imageEtag(stored, variant), true);
   } catch (error) {
     console.error('Image proxy error:', error);
     return NextResponse.json(
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { confirmSavedSearchChannel } from '@/lib/savedSearches';
+
+// Confirmation link of the email sent when a search is saved: the address
+// starts getting alerts once it is opened
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const text = (body: string, status: number) =>
+    new NextResponse(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+
+  const token = request.nextUrl.searchParams.get('token');
+  if (!token) return text('Falta el token del enlace de confirmación.', 400);
+
+  try {
+    const { id } = await params;
+    const channel = await confirmSavedSearchChannel(id, token);
+    return channel
+      ? text('Dirección confirmada. Te avisaremos cuando aparezcan bicicletas nuevas.', 200)
+      : text('Esta búsqueda ya no existe o el enlace no es válido.', 404);
+  } catch (error) {
+    console.error('Error confirming saved search:', error);
+    return text('No se pudo confirmar la dirección. Inténtalo más tarde.', 500);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSavedSearch } from '@/lib/savedSearches';
+import { requireAdminToken } from '@/lib/auth';
+
+// Admins delete any search; its owner deletes it with ?token=<unsubscribeToken>
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const token = request.nextUrl.searchParams.get('token') || undefined;
+  if (!token) {
+    const unauthorized = requireAdminToken(request);
+    if (unauthorized) return unauthorized;
+  }
+
+  try {
+    const { id } = await params;
+    // A wrong token looks like a missing search, so ids cannot be probed
+    const deleted = await deleteSavedSearch(id, token);
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Saved search not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete saved search' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSavedSearch } from '@/lib/savedSearches';
+
+// Unsubscribe link of the alerts. Opening it only shows a button: mail
+// scanners and link previews open every link, so the search is deleted by
+// the POST that button sends, or by the one-click POST mail clients send
+// for List-Unsubscribe (RFC 8058) to this same URL.
+
+function text(body: string, status: number): NextResponse {
+  return new NextResponse(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+}
+
+export async function GET(request: NextRequest) {
+  if (!request.nextUrl.searchParams.get('token')) return text('Falta el token del enlace de baja.', 400);
+
+  // The form posts back to this URL, token included
+  const html = [
+    '<!doctype html>',
+    '<html lang="es">',
+    '<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Darse de baja</title></head>',
+    '<body>',
+    '<p>¿Quieres dejar de recibir los avisos de esta búsqueda guardada?</p>',
+    '<form method="post"><button type="submit">Darme de baja</button></form>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+  return new NextResponse(html, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Content-Security-Policy': "default-src 'none'; form-action 'self'",
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+// Deletes the saved search when the token matches
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const token = request.nextUrl.searchParams.get('token');
+  if (!token) return text('Falta el token del enlace de baja.', 400);
+
+  try {
+    const { id } = await params;
+    const deleted = await deleteSavedSearch(id, token);
+    return deleted
+      ? text('Has dejado de recibir avisos de esta búsqueda.', 200)
+      : text('Esta búsqueda ya no existe o el enlace no es válido.', 404);
+  } catch (error) {
+    console.error('Error unsubscribing saved search:', error);
+    return text('No se pudo dar de baja la búsqueda. Inténtalo más tarde.', 500);
+  }
+}
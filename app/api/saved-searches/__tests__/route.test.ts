@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+describe('POST /api/saved-searches', () => {
+  let route: typeof import('@/app/api/saved-searches/route');
+
+  beforeEach(async () => {
+    vi.stubEnv('ADMIN_TOKEN', 'secret');
+    vi.resetModules();
+    route = await import('@/app/api/saved-searches/route');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const create = (url: string, headers?: Record<string, string>) =>
+    route.POST(new NextRequest('http://localhost/api/saved-searches', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ nombre: 'Orbeas', filters: { marca: 'Orbea' }, channels: [{ type: 'webhook', url }] }),
+    }));
+
+  it('only lets admins add a webhook, which nothing can confirm', async () => {
+    expect((await create('https://hooks.example.com/bicis')).status).toBe(401);
+  });
+
+  it('refuses webhooks over plain http', async () => {
+    const response = await create('http://hooks.example.com/bicis', { authorization: 'Bearer secret' });
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { NotificationChannel, SearchFilters } from '@/types/bicycle';
+import { channelKey, createSavedSearch, deleteSavedSearch, getSavedSearches, withoutSecrets } from '@/lib/savedSearches';
+import { requireAdminToken } from '@/lib/auth';
+import { createRateLimiter, rateLimit } from '@/lib/rateLimit';
+import { resolveNear } from '@/lib/nearby';
+import { invalidDateFilter } from '@/lib/bicycleQuery';
+import { isAllowedWebhookUrl, sendConfirmationEmail, unsubscribeUrl } from '@/lib/notifiers';
+
+// Anyone may save a search from the home page; this keeps a client from
+// filling the file
+const createLimiter = createRateLimiter({
+  limit: Number(process.env.SAVED_SEARCHES_RATE_LIMIT) || 10,
+  windowMs: 60 * 60 * 1000,
+});
+
+const FILTER_KEYS: (keyof SearchFilters)[] = [
+  'marca', 'marcaId', 'modelo', 'color', 'colorId', 'numeroSerie', 'numeroMatricula', 'ciudad', 'provincia', 'searchTerm', 'tipo',
+  'near', 'nearCity', 'radiusKm', 'fechaRoboDesde', 'fechaRoboHasta', 'fechaLocalizacionDesde', 'fechaLocalizacionHasta',
+];
+
+// Keep only known, non-empty filter fields
+function parseFilters(value: unknown): SearchFilters {
+  const filters: Record<string, string> = {};
+  if (value && typeof value === 'object') {
+    for (const key of FILTER_KEYS) {
+      const field = (value as Record<string, unknown>)[key];
+      if (typeof field === 'string' && field.trim()) {
+        filters[key] = field.trim();
+      }
+    }
+  }
+  return filters as SearchFilters;
+}
+
+function parseChannels(value: unknown): NotificationChannel[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const channels: NotificationChannel[] = [];
+  for (const item of value) {
+    if (item?.type === 'email' && typeof item.to === 'string' && /^[^\s@]+@[^\s@]+$/.test(item.to)) {
+      channels.push({ type: 'email', to: item.to });
+    } else if (item?.type === 'webhook' && typeof item.url === 'string' && /^https:\/\//.test(item.url)) {
+      channels.push({ type: 'webhook', url: item.url });
+    } else {
+      return null;
+    }
+  }
+  return channels;
+}
+
+// Every saved search, with members' emails and webhooks: admins only
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdminToken(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const searches = await getSavedSearches();
+    return NextResponse.json({ success: true, count: searches.length, data: searches.map(withoutSecrets) });
+  } catch (error) {
+    console.error('Error reading saved searches:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read saved searches' },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { nombre, filters: SearchFilters, channels: [{ type: 'email', to } | { type: 'webhook', url }] }
+// Public for email channels: every address is sent a confirmation link and
+// gets no alerts until it is opened. A webhook cannot confirm anything, so
+// webhook channels need ADMIN_TOKEN. The response carries the unsubscribe
+// token, which is the only way for its owner to delete the search.
+export async function POST(request: NextRequest) {
+  const limited = rateLimit(request, createLimiter);
+  if (limited) return limited;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const nombre = typeof body?.nombre === 'string' ? body.nombre.trim() : '';
+  if (!nombre) {
+    return NextResponse.json({ success: false, error: 'Missing nombre' }, { status: 400 });
+  }
+
+  const filters = parseFilters(body.filters);
+  if (Object.keys(filters).length === 0) {
+    return NextResponse.json({ success: false, error: 'At least one filter is required' }, { status: 400 });
+  }
+
+  const { error: nearError } = resolveNear(filters);
+  if (nearError) {
+    return NextResponse.json({ success: false, error: nearError }, { status: 400 });
+  }
+
+  const invalidDate = invalidDateFilter(filters);
+  if (invalidDate) {
+    return NextResponse.json({ success: false, error: `Invalid ${invalidDate}, expected yyyy-mm-dd` }, { status: 400 });
+  }
+
+  const channels = parseChannels(body.channels);
+  if (!channels) {
+    return NextResponse.json({ success: false, error: 'Invalid channels' }, { status: 400 });
+  }
+  if (channels.length === 0) {
+    return NextResponse.json({ success: false, error: 'At least one channel is required' }, { status: 400 });
+  }
+  if (channels.some(channel => channel.type === 'webhook')) {
+    const unauthorized = requireAdminToken(request);
+    if (unauthorized) return unauthorized;
+  }
+  // The server will POST to these URLs: keep them away from its own network
+  for (const channel of channels) {
+    if (channel.type === 'webhook' && !(await isAllowedWebhookUrl(channel.url))) {
+      return NextResponse.json({ success: false, error: 'Webhook URL must be a public https address' }, { status: 400 });
+    }
+  }
+
+  let search;
+  try {
+    search = await createSavedSearch(nombre, filters, channels);
+  } catch (error) {
+    console.error('Error creating saved search:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create saved search' },
+      { status: 500 }
+    );
+  }
+
+  const pendingEmails: string[] = [];
+  try {
+    for (const channel of channels) {
+      const token = search.pendingConfirmations?.[channelKey(channel)];
+      if (channel.type === 'email' && token) {
+        await sendConfirmationEmail(search, channel.to, token);
+        pendingEmails.push(channel.to);
+      }
+    }
+  } catch (error) {
+    // Nobody could ever confirm it: do not keep it
+    console.error('Error sending saved search confirmation:', error);
+    await deleteSavedSearch(search.id).catch(() => undefined);
+    return NextResponse.json(
+      { success: false, error: 'Failed to send the confirmation email' },
+      { status: 502 }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      success: true,
+      data: {
+        ...withoutSecrets(search),
+        pendingEmails,
+        unsubscribeToken: search.unsubscribeToken,
+        unsubscribeUrl: unsubscribeUrl(search),
+      },
+    },
+    { status: 201 }
+  );
+}
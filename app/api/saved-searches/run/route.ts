@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runSavedSearches } from '@/lib/savedSearches';
+import { requireAdminToken } from '@/lib/auth';
+
+// Re-run every saved search now instead of waiting for the next sync
+export async function POST(request: NextRequest) {
+  const unauthorized = requireAdminToken(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const runs = await runSavedSearches();
+    return NextResponse.json({ success: true, data: runs });
+  } catch (error) {
+    console.error('Error running saved searches:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run saved searches' },
+      { status: 500 }
+    );
+  }
+}
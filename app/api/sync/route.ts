@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runSync } from '@/lib/sync';
+import { getSyncStatus } from '@/lib/bicycleStore';
+import { requireSyncToken } from '@/lib/auth';
+
+// Trigger a sync from an external scheduler (e.g. a cron job). The request
+// must send SYNC_TOKEN as a Bearer token, and is refused while it is not set.
+export async function POST(request: NextRequest) {
+  const unauthorized = requireSyncToken(request);
+  if (unauthorized) return unauthorized;
+
+  const result = await runSync();
+
+  return NextResponse.json(result, { status: result.success ? 200 : 502 });
+}
+
+// Report the status of the last sync
+export async function GET() {
+  try {
+    const status = await getSyncStatus();
+    return NextResponse.json({ success: true, ...status });
+  } catch (error) {
+    console.error('Error reading sync status:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to read sync status' },
+      { status: 500 }
+    );
+  }
+}
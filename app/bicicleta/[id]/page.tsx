@@ -0,0 +1,175 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { cache } from 'react';
+import type { BicycleDetail } from '@/types/bicycle';
+import { getBicycleDetail } from '@/lib/bicycleDetail';
+import { APP_URL } from '@/lib/appUrl';
+import { formatDate } from '@/lib/dates';
+import BicycleGallery from '@/components/BicycleGallery';
+import MatchesPanel from '@/components/MatchesPanel';
+
+interface BicyclePageProps {
+  params: Promise<{ id: string }>;
+}
+
+// generateMetadata and the page share one lookup per request
+const loadBicycle = cache((id: string) => getBicycleDetail(id));
+
+function describe(bicycle: BicycleDetail): string {
+  const estado = bicycle.estado === 'desaparecida' ? 'Bicicleta desaparecida' : 'Bicicleta localizada';
+  const lugar = bicycle.estado === 'desaparecida'
+    ? bicycle.lugarRobo || bicycle.ciudad
+    : bicycle.datosDeposito?.nombre || bicycle.deposito || bicycle.lugarLocalizacion || bicycle.ciudad;
+  return [estado, bicycle.color, lugar].filter(Boolean).join(' · ');
+}
+
+export async function generateMetadata({ params }: BicyclePageProps): Promise<Metadata> {
+  const { id } = await params;
+  const bicycle = await loadBicycle(id);
+  if (!bicycle) {
+    return { title: 'Bicicleta no encontrada - BiciRegistro' };
+  }
+
+  const title = `${bicycle.marca} ${bicycle.modelo} - BiciRegistro`;
+  const description = describe(bicycle);
+  return {
+    metadataBase: new URL(APP_URL),
+    title,
+    description,
+    openGraph: {
+      type: 'article',
+      locale: 'es_ES',
+      siteName: 'BiciRegistro',
+      url: `/bicicleta/${encodeURIComponent(bicycle.id)}`,
+      title,
+      description,
+      images: bicycle.imagenes.slice(0, 1),
+    },
+  };
+}
+
+function Field({ label, value, mono }: { label: string; value?: string; mono?: boolean }) {
+  if (!value) return null;
+  return (
+    <div className="flex justify-between gap-4 py-1">
+      <dt className="text-gray-600 dark:text-gray-400">{label}</dt>
+      <dd className={`text-right text-gray-900 dark:text-white ${mono ? 'font-mono text-xs' : 'font-semibold'}`}>{value}</dd>
+    </div>
+  );
+}
+
+export default async function BicyclePage({ params }: BicyclePageProps) {
+  const { id } = await params;
+  const bicycle = await loadBicycle(id);
+  if (!bicycle) notFound();
+
+  const desaparecida = bicycle.estado === 'desaparecida';
+  const shareUrl = `${APP_URL}/bicicleta/${encodeURIComponent(bicycle.id)}`;
+  const shareText = `${bicycle.marca} ${bicycle.modelo} (${describe(bicycle)}) ${shareUrl}`;
+  const registro = Object.entries(bicycle.datosRegistro);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      {/* Header */}
+      <header className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-b border-gray-200 dark:border-gray-700 py-4">
+        <div className="container mx-auto px-4 flex items-center justify-between">
+          <Link href="/" className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-600 to-green-600 dark:from-blue-400 dark:to-green-400">
+            🚲 BiciRegistro
+          </Link>
+          <Link href="/" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+            ← Volver a la búsqueda
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 grid gap-8 lg:grid-cols-2">
+          <BicycleGallery imagenes={bicycle.imagenes} alt={`${bicycle.marca} ${bicycle.modelo}`} />
+
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+              {bicycle.marca} {bicycle.modelo}
+            </h1>
+
+            <div className="mb-6 flex flex-wrap items-center gap-3">
+              {desaparecida ? (
+                <span className="inline-block bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 text-xs font-semibold px-3 py-1 rounded-full">
+                  ⚠ Desaparecida
+                </span>
+              ) : (
+                <span className="inline-block bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 text-xs font-semibold px-3 py-1 rounded-full">
+                  ✓ Localizada
+                </span>
+              )}
+              <a
+                href={`https://wa.me/?text=${encodeURIComponent(shareText)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm px-3 py-1 bg-green-600 hover:bg-green-700 text-white rounded-full transition-colors"
+              >
+                Compartir por WhatsApp
+              </a>
+            </div>
+
+            <dl className="text-sm divide-y divide-gray-100 dark:divide-gray-700">
+              <Field label="Color" value={bicycle.color} />
+              <Field label="Color según la foto" value={bicycle.colorInferido} />
+              <Field label="Matrícula" value={bicycle.numeroMatricula} />
+              <Field label="Nº Serie" value={bicycle.numeroSerie} mono />
+              <Field label="Ciudad" value={bicycle.ciudad} />
+              <Field label="Provincia" value={bicycle.provincia} />
+              <Field label="Fecha de robo" value={formatDate(bicycle.fechaRobo)} />
+              <Field label="Lugar de robo" value={bicycle.lugarRobo} />
+              <Field label="Fecha de localización" value={formatDate(bicycle.fechaLocalizacion)} />
+              <Field label="Lugar de localización" value={bicycle.lugarLocalizacion} />
+            </dl>
+
+            {(bicycle.datosDeposito || bicycle.deposito) && (
+              <section className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+                <h2 className="text-sm font-semibold text-green-700 dark:text-green-400 mb-2">Depósito</h2>
+                <dl className="text-sm">
+                  <Field label="Nombre" value={bicycle.datosDeposito?.nombre || bicycle.deposito} />
+                  <Field label="Dirección" value={bicycle.datosDeposito?.direccion} />
+                  <Field label="Horario" value={bicycle.datosDeposito?.horario} />
+                  <Field label="Teléfono" value={bicycle.datosDeposito?.telefono} />
+                </dl>
+              </section>
+            )}
+
+            {bicycle.descripcion && (
+              <section className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+                <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Descripción</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-line">{bicycle.descripcion}</p>
+              </section>
+            )}
+
+            {registro.length > 0 && (
+              <section className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+                <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Datos de registro</h2>
+                <dl className="text-sm">
+                  {registro.map(([label, value]) => (
+                    <Field key={label} label={label} value={value} />
+                  ))}
+                </dl>
+              </section>
+            )}
+
+            {bicycle.fichaUrl && (
+              <a
+                href={bicycle.fichaUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-6 inline-block text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Ver ficha en biciregistro.es ↗
+              </a>
+            )}
+
+            <MatchesPanel bicycleId={bicycle.id} estado={bicycle.estado} />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -2,10 +2,14 @@
 
 import React from 'react';
 import Image from 'next/image';
-import type { Bicycle } from '@/types/bicycle';
+import Link from 'next/link';
+import type { NearbyBicycle } from '@/types/bicycle';
+import { formatDate } from '@/lib/dates';
+import { isProxiedImage, thumbnailUrl } from '@/lib/proxyImage';
+import MatchesPanel from '@/components/MatchesPanel';
 
 interface BicycleCardProps {
-  bicycle: Bicycle;
+  bicycle: NearbyBicycle;
   onImageClick: (imageUrl: string) => void;
 }
 
@@ -13,8 +17,8 @@ export default function BicycleCard({ bicycle, onImageClick }: BicycleCardProps)
   const [imageError, setImageError] = React.useState(false);
   const imageUrl = imageError || !bicycle.imagen ? '/images/bicicletas/placeholder.svg' : bicycle.imagen;
   
-  // Use regular img for proxy URLs, Next.js Image for others
-  const isProxiedImage = imageUrl.startsWith('/api/proxy-image');
+  // Proxy URLs are resized by our own proxy (a thumbnail; the modal gets the full photo)
+  const proxied = isProxiedImage(imageUrl);
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden hover:shadow-xl transition-shadow">
@@ -23,23 +27,15 @@ export default function BicycleCard({ bicycle, onImageClick }: BicycleCardProps)
         className="relative h-64 bg-gray-200 dark:bg-gray-700 cursor-pointer overflow-hidden group"
         onClick={() => onImageClick(bicycle.imagenCompleta || bicycle.imagen || imageUrl)}
       >
-        {isProxiedImage ? (
-          <img
-            src={imageUrl}
-            alt={`${bicycle.marca} ${bicycle.modelo}`}
-            className="absolute inset-0 w-full h-full object-cover group-hover:scale-110 transition-transform duration-300"
-            onError={() => setImageError(true)}
-          />
-        ) : (
-          <Image
-            src={imageUrl}
-            alt={`${bicycle.marca} ${bicycle.modelo}`}
-            fill
-            className="object-cover group-hover:scale-110 transition-transform duration-300"
-            sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-            onError={() => setImageError(true)}
-          />
-        )}
+        <Image
+          src={proxied ? thumbnailUrl(imageUrl) : imageUrl}
+          alt={`${bicycle.marca} ${bicycle.modelo}`}
+          fill
+          unoptimized={proxied}
+          className="object-cover group-hover:scale-110 transition-transform duration-300"
+          sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+          onError={() => setImageError(true)}
+        />
         <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-30 transition-opacity flex items-center justify-center">
           <span className="text-white opacity-0 group-hover:opacity-100 text-lg font-semibold">
             🔍 Ver en alta resolución
@@ -51,21 +47,33 @@ export default function BicycleCard({ bicycle, onImageClick }: BicycleCardProps)
       <div className="p-6">
         {/* Title */}
         <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
-          {bicycle.marca} {bicycle.modelo}
+          <Link href={`/bicicleta/${encodeURIComponent(bicycle.id)}`} className="hover:text-blue-600 dark:hover:text-blue-400">
+            {bicycle.marca} {bicycle.modelo}
+          </Link>
         </h3>
 
         {/* Status Badge */}
         <div className="mb-4">
-          <span className="inline-block bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 text-xs font-semibold px-3 py-1 rounded-full">
-            ✓ Localizada
-          </span>
+          {bicycle.estado === 'desaparecida' ? (
+            <span className="inline-block bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 text-xs font-semibold px-3 py-1 rounded-full">
+              ⚠ Desaparecida
+            </span>
+          ) : (
+            <span className="inline-block bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 text-xs font-semibold px-3 py-1 rounded-full">
+              ✓ Localizada
+            </span>
+          )}
         </div>
 
         {/* Details Grid */}
         <div className="space-y-2 text-sm">
           <div className="flex justify-between">
             <span className="text-gray-600 dark:text-gray-400">Color:</span>
-            <span className="font-semibold text-gray-900 dark:text-white">{bicycle.color}</span>
+            <span className="font-semibold text-gray-900 dark:text-white">
+              {bicycle.color || (bicycle.colorInferido && (
+                <span title="Color leído de la foto">{bicycle.colorInferido} (según la foto)</span>
+              ))}
+            </span>
           </div>
 
           {bicycle.numeroMatricula && (
@@ -95,6 +103,13 @@ export default function BicycleCard({ bicycle, onImageClick }: BicycleCardProps)
               <span className="font-semibold text-gray-900 dark:text-white">{bicycle.provincia}</span>
             </div>
           )}
+
+          {bicycle.distanciaKm !== undefined && (
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">Distancia:</span>
+              <span className="font-semibold text-gray-900 dark:text-white">{bicycle.distanciaKm} km</span>
+            </div>
+          )}
         </div>
 
         {/* Theft Info */}
@@ -104,7 +119,7 @@ export default function BicycleCard({ bicycle, onImageClick }: BicycleCardProps)
               Información del robo
             </h4>
             <div className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
-              <div>📅 Fecha: {new Date(bicycle.fechaRobo).toLocaleDateString('es-ES')}</div>
+              <div>📅 Fecha: {formatDate(bicycle.fechaRobo)}</div>
               {bicycle.lugarRobo && <div>📍 Lugar: {bicycle.lugarRobo}</div>}
             </div>
           </div>
@@ -117,7 +132,7 @@ export default function BicycleCard({ bicycle, onImageClick }: BicycleCardProps)
               Información de localización
             </h4>
             <div className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
-              <div>📅 Fecha: {new Date(bicycle.fechaLocalizacion).toLocaleDateString('es-ES')}</div>
+              <div>📅 Fecha: {formatDate(bicycle.fechaLocalizacion)}</div>
               {bicycle.lugarLocalizacion && <div>📍 Lugar: {bicycle.lugarLocalizacion}</div>}
             </div>
           </div>
@@ -131,6 +146,16 @@ export default function BicycleCard({ bicycle, onImageClick }: BicycleCardProps)
             </p>
           </div>
         )}
+
+        <Link
+          href={`/bicicleta/${encodeURIComponent(bicycle.id)}`}
+          className="mt-4 inline-block text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Ver ficha completa →
+        </Link>
+
+        {/* Possible Matches */}
+        <MatchesPanel bicycleId={bicycle.id} estado={bicycle.estado} />
       </div>
     </div>
   );
@@ -0,0 +1,53 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import ImageModal from '@/components/ImageModal';
+import { thumbnailUrl } from '@/lib/proxyImage';
+
+interface BicycleGalleryProps {
+  imagenes: string[];
+  alt: string;
+}
+
+export default function BicycleGallery({ imagenes, alt }: BicycleGalleryProps) {
+  const [current, setCurrent] = useState(0);
+  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const images = imagenes.length > 0 ? imagenes : ['/images/bicicletas/placeholder.svg'];
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setSelectedImage(images[current])}
+        className="relative block w-full h-80 md:h-96 bg-gray-200 dark:bg-gray-700 rounded-lg overflow-hidden group"
+      >
+        {/* Proxied photos are resized by our own proxy already */}
+        <Image src={thumbnailUrl(images[current], 960)} alt={alt} fill unoptimized className="object-contain" />
+        <span className="absolute bottom-3 right-3 bg-black/60 text-white text-sm px-3 py-1 rounded-full opacity-0 group-hover:opacity-100 transition-opacity">
+          🔍 Ver en alta resolución
+        </span>
+      </button>
+
+      {images.length > 1 && (
+        <div className="mt-3 grid grid-cols-4 sm:grid-cols-6 gap-2">
+          {images.map((imagen, index) => (
+            <button
+              key={imagen}
+              type="button"
+              onClick={() => setCurrent(index)}
+              aria-label={`Foto ${index + 1} de ${images.length}`}
+              className={`relative h-16 rounded overflow-hidden border-2 ${index === current ? 'border-blue-500' : 'border-transparent'}`}
+            >
+              <Image src={thumbnailUrl(imagen, 128)} alt="" fill unoptimized className="object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selectedImage && (
+        <ImageModal imageUrl={selectedImage} onClose={() => setSelectedImage(null)} />
+      )}
+    </div>
+  );
+}
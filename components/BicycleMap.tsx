@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import Link from 'next/link';
+import type { BicycleLocation, BicycleMapResponse, SearchFilters, SortField } from '@/types/bicycle';
+import { searchQueryString } from '@/lib/bicycleQuery';
+import { distanceKm, type GeoPoint } from '@/lib/geo';
+import { errorMessage } from '@/lib/errorMessages';
+import type { MapBounds } from '@/components/LeafletMap';
+
+// Leaflet needs `window`, so the map is only rendered in the browser
+const LeafletMap = dynamic(() => import('@/components/LeafletMap'), {
+  ssr: false,
+  loading: () => (
+    <div className="h-full w-full flex items-center justify-center bg-gray-100 dark:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400">
+      Cargando mapa...
+    </div>
+  ),
+});
+
+interface BicycleMapProps {
+  filters: SearchFilters;
+  sort: SortField;
+}
+
+function inBounds(location: BicycleLocation, bounds: MapBounds | null): boolean {
+  if (!bounds) return true;
+  return location.lat >= bounds.south && location.lat <= bounds.north
+    && location.lng >= bounds.west && location.lng <= bounds.east;
+}
+
+function formatDistance(km: number): string {
+  return km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+}
+
+// Search results on a map, one marker per depósito / place. The side list
+// shows the places in view, nearest first once the member shares their location.
+export default function BicycleMap({ filters, sort }: BicycleMapProps) {
+  const [locations, setLocations] = useState<BicycleLocation[]>([]);
+  const [unlocated, setUnlocated] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [bounds, setBounds] = useState<MapBounds | null>(null);
+  const [userLocation, setUserLocation] = useState<GeoPoint | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const query = searchQueryString(filters, { sort });
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch(`/api/bicycles/map?${query}`, { signal: controller.signal })
+      .then(response => response.json() as Promise<BicycleMapResponse>)
+      .then((data) => {
+        if (data.success) {
+          setLocations(data.data);
+          setUnlocated(data.unlocated);
+        } else {
+          setError(errorMessage(data.code, data.retryAfter));
+        }
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError('Error de conexión. Por favor, intenta de nuevo.');
+        console.error(err);
+      })
+      .finally(() => setLoading(false));
+
+    return () => controller.abort();
+  }, [query]);
+
+  const visible = useMemo(() => {
+    const inView = locations
+      .filter(location => inBounds(location, bounds))
+      .map(location => ({
+        location,
+        distance: userLocation ? distanceKm(userLocation, location) : null,
+      }));
+
+    if (userLocation) {
+      inView.sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0));
+    }
+    return inView;
+  }, [locations, bounds, userLocation]);
+
+  const locate = () => {
+    if (!navigator.geolocation) {
+      setError('Tu navegador no permite obtener la ubicación');
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setUserLocation({ lat: position.coords.latitude, lng: position.coords.longitude });
+        setLocating(false);
+      },
+      () => {
+        setError('No se pudo obtener tu ubicación');
+        setLocating(false);
+      },
+      { enableHighAccuracy: false, timeout: 10000 }
+    );
+  };
+
+  const visibleBicycles = visible.reduce((sum, { location }) => sum + location.count, 0);
+
+  return (
+    <div>
+      {error && (
+        <div className="bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="lg:col-span-2 h-[32rem]">
+          <LeafletMap
+            locations={locations}
+            userLocation={userLocation}
+            selectedKey={selectedKey}
+            onBoundsChange={setBounds}
+            onSelect={setSelectedKey}
+          />
+        </div>
+
+        <aside className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 h-[32rem] flex flex-col">
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <h2 className="font-semibold text-gray-900 dark:text-white">
+              {userLocation ? 'Depósitos más cercanos' : 'Depósitos en el mapa'}
+            </h2>
+            <button
+              type="button"
+              onClick={locate}
+              disabled={locating}
+              className="text-sm px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              {locating ? 'Buscando...' : '📍 Usar mi ubicación'}
+            </button>
+          </div>
+
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            {loading
+              ? 'Cargando...'
+              : `${visibleBicycles} bicicletas en ${visible.length} ${visible.length === 1 ? 'lugar' : 'lugares'}`}
+            {unlocated > 0 && ` • ${unlocated} sin ubicación conocida`}
+          </p>
+
+          <ul className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {visible.map(({ location, distance }) => (
+              <li key={location.key} className="py-2">
+                <button
+                  type="button"
+                  onClick={() => setSelectedKey(selectedKey === location.key ? null : location.key)}
+                  className="w-full text-left"
+                >
+                  <div className="flex justify-between gap-2">
+                    <span className={`font-semibold ${location.key === selectedKey ? 'text-blue-600 dark:text-blue-400' : 'text-gray-900 dark:text-white'}`}>
+                      {location.nombre}
+                    </span>
+                    <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {location.count} 🚲
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {[location.municipio, location.provincia].filter(Boolean).join(', ')}
+                    {location.precision === 'provincia' && ' (aproximado)'}
+                    {distance !== null && ` • a ${formatDistance(distance)}`}
+                  </div>
+                </button>
+
+                {location.key === selectedKey && (
+                  <ul className="mt-2 ml-3 space-y-1 text-sm">
+                    {location.bicycles.map((bicycle) => (
+                      <li key={bicycle.id}>
+                        <Link
+                          href={`/bicicleta/${encodeURIComponent(bicycle.id)}`}
+                          className="text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {bicycle.marca} {bicycle.modelo}
+                        </Link>
+                        {bicycle.color && <span className="text-gray-500 dark:text-gray-400"> · {bicycle.color}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+'use client';
+
+import { useState, useEffect, useRef, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import type { BicyclesResponse, NearbyBicycle, SearchFilters, SortField } from '@/types/bicycle';
+import { DEFAULT_PAGE_SIZE, defaultSort, searchQueryString, type HomeView } from '@/lib/bicycleQuery';
+import { errorMessage } from '@/lib/errorMessages';
+import SearchForm from '@/components/SearchForm';
+import BicycleCard from '@/components/BicycleCard';
+import BicycleMap from '@/components/BicycleMap';
+import ImageModal from '@/components/ImageModal';
+import SaveSearchForm from '@/components/SaveSearchForm';
+import PhotoSearch from '@/components/PhotoSearch';
+
+const SORT_OPTIONS: { value: SortField; label: string }[] = [
+  { value: 'relevancia', label: 'Relevancia' },
+  { value: 'fechaLocalizacion', label: 'Más recientes' },
+  { value: 'marca', label: 'Marca' },
+  { value: 'ciudad', label: 'Ciudad' },
+  { value: 'distancia', label: 'Distancia' },
+];
+
+const EXPORT_OPTIONS = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'jsonl', label: 'JSON Lines' },
+];
+
+const VIEW_OPTIONS: { value: HomeView; label: string }[] = [
+  { value: 'cuadricula', label: '▦ Cuadrícula' },
+  { value: 'mapa', label: '🗺 Mapa' },
+];
+
+// Home page URL of a search; the default sort and view are left out
+function searchUrl(filters: SearchFilters, sort: SortField, view: HomeView, page = 1): string {
+  const params = new URLSearchParams(searchQueryString(filters, { sort: sort === defaultSort(filters) ? undefined : sort, page }));
+  if (view === 'mapa') params.set('vista', view);
+  const query = params.toString();
+  return query ? `/?${query}` : '/';
+}
+
+interface BicycleSearchProps {
+  filters: SearchFilters;
+  sort: SortField;
+  view: HomeView;
+  bicycles: NearbyBicycle[]; // Every result up to `page`, rendered on the server
+  page: number;
+  total: number;
+  hasMore: boolean;
+  lastSyncAt: string | null;
+  degraded: boolean; // biciregistro.es could not be fully read in the last sync
+  syncing: boolean; // The first download of the registry is still running
+  error?: string;
+}
+
+// Search form and results. The URL is the source of truth: a new search
+// navigates to its URL and the page renders the results on the server, so
+// searches can be shared and back/forward restores them. Only "load more"
+// fetches from the client.
+export default function BicycleSearch(initial: BicycleSearchProps) {
+  const router = useRouter();
+  const [isNavigating, startNavigation] = useTransition();
+  const [bicycles, setBicycles] = useState<NearbyBicycle[]>(initial.bicycles);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(initial.error || null);
+  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [isScrolled, setIsScrolled] = useState(false);
+  const [page, setPage] = useState(initial.page);
+  const [hasMore, setHasMore] = useState(initial.hasMore);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const { filters, sort, view, total, lastSyncAt, degraded, syncing } = initial;
+  const loading = isNavigating;
+  // Distance only applies to near / nearCity searches
+  const sortOptions = filters.near || filters.nearCity
+    ? SORT_OPTIONS
+    : SORT_OPTIONS.filter(option => option.value !== 'distancia');
+
+  // A sort the user picked is kept for new filters; the default one follows them
+  const sortFor = (newFilters: SearchFilters): SortField =>
+    sort === defaultSort(filters) ? defaultSort(newFilters) : sort;
+
+  const search = (newFilters: SearchFilters, newSort: SortField, newView: HomeView = view) => {
+    startNavigation(() => {
+      router.push(searchUrl(newFilters, newSort, newView), { scroll: false });
+    });
+  };
+
+  const fetchNextPage = async () => {
+    const nextPage = page + 1;
+    setLoadingMore(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams(searchQueryString(filters, { sort, page: nextPage }));
+      params.set('pageSize', DEFAULT_PAGE_SIZE.toString());
+
+      const response = await fetch(`/api/bicycles?${params.toString()}`);
+      const data: BicyclesResponse = await response.json();
+
+      if (data.success) {
+        setBicycles(prev => [...prev, ...data.data]);
+        setPage(data.page);
+        setHasMore(data.hasMore);
+        // Keep the loaded pages in the URL without re-rendering the page
+        window.history.replaceState(null, '', searchUrl(filters, sort, view, data.page));
+      } else {
+        setError(errorMessage(data.code, data.retryAfter));
+      }
+    } catch (err) {
+      setError('Error de conexión. Por favor, intenta de nuevo.');
+      console.error(err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const loadMore = () => {
+    if (hasMore && !loading && !loadingMore) {
+      fetchNextPage();
+    }
+  };
+
+  // Infinite scroll: load the next page when the sentinel below the grid is visible
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadMore();
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  });
+
+  useEffect(() => {
+    const handleScroll = () => {
+      setIsScrolled(window.scrollY > 20);
+    };
+
+    window.addEventListener('scroll', handleScroll);
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      {/* Header */}
+      <header className={`bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-b border-gray-200 dark:border-gray-700 sticky top-0 z-10 transition-all duration-300 ${isScrolled ? 'py-3' : 'py-6'}`}>
+        <div className="container mx-auto px-4">
+          <h1 className={`font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-600 to-green-600 dark:from-blue-400 dark:to-green-400 transition-all duration-300 ${isScrolled ? 'text-2xl' : 'text-4xl'}`}>
+            🚲 BiciRegistro
+          </h1>
+          <p className={`text-gray-600 dark:text-gray-300 transition-all duration-300 ${isScrolled ? 'mt-1 text-sm' : 'mt-2'}`}>
+            Búsqueda de bicicletas localizadas y desaparecidas en España
+          </p>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {/* Search Form */}
+        <div className="mb-8">
+          <SearchForm initialFilters={filters} onSearch={(newFilters) => search(newFilters, sortFor(newFilters))} loading={loading} />
+          <SaveSearchForm filters={filters} />
+          <PhotoSearch tipo={filters.tipo} />
+        </div>
+
+        {/* Results */}
+        {error && (
+          <div className="bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg mb-4">
+            {error}
+          </div>
+        )}
+
+        {syncing ? (
+          <div className="bg-blue-100 dark:bg-blue-900/30 border border-blue-400 dark:border-blue-600 text-blue-800 dark:text-blue-300 px-4 py-3 rounded-lg mb-4">
+            Estamos descargando por primera vez el listado de biciregistro.es. Vuelve a cargar la página en unos minutos.
+          </div>
+        ) : degraded && (
+          <div className="bg-amber-100 dark:bg-amber-900/30 border border-amber-400 dark:border-amber-600 text-amber-800 dark:text-amber-300 px-4 py-3 rounded-lg mb-4">
+            No hemos podido consultar biciregistro.es en la última actualización. Los resultados pueden estar incompletos o desactualizados.
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center py-20">
+            <div className="animate-spin rounded-full h-16 w-16 border-4 border-blue-500 border-t-transparent"></div>
+          </div>
+        ) : (
+          <>
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2 text-gray-700 dark:text-gray-300">
+              <div>
+                <span className="font-semibold">{total}</span> bicicletas encontradas
+                {lastSyncAt && (
+                  <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                    • Actualizado {new Date(lastSyncAt).toLocaleString('es-ES')}
+                  </span>
+                )}
+                {total > 0 && (
+                  <details className="relative inline-block ml-3 text-sm">
+                    <summary className="cursor-pointer list-none px-3 py-1 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 rounded-lg font-semibold">
+                      ⬇ Descargar
+                    </summary>
+                    <div className="absolute z-20 mt-1 w-40 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg overflow-hidden">
+                      {EXPORT_OPTIONS.map((option) => (
+                        <a
+                          key={option.format}
+                          href={`/api/bicycles/export?${searchQueryString(filters, { sort })}&format=${option.format}`}
+                          download
+                          className="block px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-600"
+                        >
+                          {option.label}
+                        </a>
+                      ))}
+                    </div>
+                  </details>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="inline-flex rounded-lg overflow-hidden border border-gray-300 dark:border-gray-600 text-sm">
+                  {VIEW_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => search(filters, sort, option.value)}
+                      aria-pressed={view === option.value}
+                      className={`px-3 py-1 transition-colors ${view === option.value ? 'bg-blue-600 text-white' : 'bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+
+                <label className="text-sm flex items-center gap-2">
+                  Ordenar por
+                  <select
+                    value={sort}
+                    onChange={(e) => search(filters, e.target.value as SortField)}
+                    className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                  >
+                    {sortOptions.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+
+            {view === 'mapa' ? (
+              <BicycleMap filters={filters} sort={sort} />
+            ) : bicycles.length === 0 ? (
+              <div className="text-center py-20">
+                <p className="text-gray-500 dark:text-gray-400 text-xl">
+                  {syncing
+                    ? 'Todavía no hay bicicletas descargadas.'
+                    : degraded
+                    ? 'No se pueden mostrar bicicletas porque biciregistro.es no responde. Vuelve a intentarlo más tarde.'
+                    : 'No se encontraron bicicletas con estos criterios'}
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {bicycles.map((bicycle) => (
+                  <BicycleCard
+                    key={bicycle.id}
+                    bicycle={bicycle}
+                    onImageClick={setSelectedImage}
+                  />
+                ))}
+              </div>
+            )}
+
+            {view !== 'mapa' && hasMore && (
+              <div ref={loadMoreRef} className="flex justify-center py-8">
+                <button
+                  type="button"
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="px-6 py-3 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 font-semibold rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {loadingMore ? 'Cargando...' : `Cargar más (${bicycles.length} de ${total})`}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      {/* Footer */}
+      <footer className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border-t border-gray-200 dark:border-gray-700 mt-16">
+        <div className="container mx-auto px-4 py-6 text-center text-gray-600 dark:text-gray-400">
+          <p>Datos de biciregistro.es • Bicicletas localizadas y desaparecidas</p>
+        </div>
+      </footer>
+
+      {/* Image Modal */}
+      {selectedImage && (
+        <ImageModal
+          imageUrl={selectedImage}
+          onClose={() => setSelectedImage(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useId, useState } from 'react';
+import type { ConfigOption } from '@/types/bicycle';
+import { normalizeText } from '@/lib/search';
+
+interface ComboboxProps {
+  id: string;
+  label: string;
+  value: string;
+  options: ConfigOption[];
+  placeholder?: string;
+  // optionId is set when a known option was chosen, undefined for free text
+  onChange: (value: string, optionId?: string) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export default function Combobox({ id, label, value, options, placeholder, onChange }: ComboboxProps) {
+  const listboxId = useId();
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const query = normalizeText(value);
+  const matches = query
+    ? options
+        .filter(option => normalizeText(option.label).includes(query))
+        // Labels starting with the query first
+        .sort((a, b) => Number(normalizeText(b.label).startsWith(query)) - Number(normalizeText(a.label).startsWith(query)))
+        .slice(0, MAX_SUGGESTIONS)
+    : options.slice(0, MAX_SUGGESTIONS);
+
+  // Offer the typed text as is when it is not exactly a known option
+  const exact = matches.some(option => normalizeText(option.label) === query);
+  const showFreeText = Boolean(query) && !exact;
+  const itemCount = matches.length + (showFreeText ? 1 : 0);
+
+  const select = (index: number) => {
+    if (index < matches.length) {
+      const option = matches[index];
+      onChange(option.label, String(option.id));
+    } else {
+      onChange(value.trim());
+    }
+    setOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex(index => (index + 1) % Math.max(itemCount, 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex(index => (index <= 0 ? itemCount - 1 : index - 1));
+    } else if (e.key === 'Enter' && open && activeIndex >= 0 && activeIndex < itemCount) {
+      // Only swallow Enter when choosing a suggestion, so it still submits the form otherwise
+      e.preventDefault();
+      select(activeIndex);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+  return (
+    <div className="relative">
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {label}
+      </label>
+      <input
+        type="text"
+        id={id}
+        role="combobox"
+        aria-expanded={open && itemCount > 0}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={open && activeIndex >= 0 ? optionId(activeIndex) : undefined}
+        autoComplete="off"
+        value={value}
+        onChange={(e) => {
+          // Typed text only keeps an id when it exactly names a known option
+          const known = options.find(option => normalizeText(option.label) === normalizeText(e.target.value));
+          onChange(e.target.value, known ? String(known.id) : undefined);
+          setOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+      />
+
+      {open && itemCount > 0 && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-64 overflow-auto bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg"
+        >
+          {matches.map((option, index) => (
+            <li
+              key={option.id}
+              id={optionId(index)}
+              role="option"
+              aria-selected={index === activeIndex}
+              // mousedown fires before the input blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(index);
+              }}
+              className={`px-4 py-2 cursor-pointer text-gray-900 dark:text-white ${index === activeIndex ? 'bg-blue-100 dark:bg-blue-900/50' : 'hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+            >
+              {option.label}
+            </li>
+          ))}
+          {showFreeText && (
+            <li
+              id={optionId(matches.length)}
+              role="option"
+              aria-selected={activeIndex === matches.length}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(matches.length);
+              }}
+              className={`px-4 py-2 cursor-pointer italic text-gray-600 dark:text-gray-300 border-t border-gray-200 dark:border-gray-600 ${activeIndex === matches.length ? 'bg-blue-100 dark:bg-blue-900/50' : 'hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+            >
+              Buscar «{value.trim()}» como texto libre
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
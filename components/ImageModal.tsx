@@ -2,6 +2,7 @@
 
 import { useEffect } from 'react';
 import Image from 'next/image';
+import { isProxiedImage } from '@/lib/proxyImage';
 
 interface ImageModalProps {
   imageUrl: string;
@@ -43,10 +44,12 @@ export default function ImageModal({ imageUrl, onClose }: ImageModalProps) {
       <div 
         className="relative max-w-7xl max-h-[90vh] w-full h-full"
       >
+        {/* The proxy serves the full original; re-optimising it would only lose quality */}
         <Image
           src={imageUrl}
           alt="Bicicleta en alta resolución"
           fill
+          unoptimized={isProxiedImage(imageUrl)}
           className="object-contain"
           sizes="100vw"
           quality={100}
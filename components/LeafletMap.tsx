@@ -0,0 +1,124 @@
+'use client';
+
+import 'leaflet/dist/leaflet.css';
+import { useCallback, useEffect } from 'react';
+import type { Map as LeafletInstance } from 'leaflet';
+import Link from 'next/link';
+import { CircleMarker, MapContainer, Popup, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import type { BicycleLocation } from '@/types/bicycle';
+import type { GeoPoint } from '@/lib/geo';
+
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+interface LeafletMapProps {
+  locations: BicycleLocation[];
+  userLocation: GeoPoint | null;
+  selectedKey: string | null;
+  onBoundsChange: (bounds: MapBounds) => void;
+  onSelect: (key: string) => void;
+}
+
+// Peninsula and islands
+const SPAIN_CENTER: [number, number] = [40.2, -3.7];
+const SPAIN_ZOOM = 6;
+
+// Popups list at most this many bicycles; the side list has all of them
+const POPUP_BICYCLES = 5;
+
+function markerRadius(count: number): number {
+  return Math.min(30, 8 + Math.sqrt(count) * 3);
+}
+
+// Report the visible area on load and after every pan / zoom. The parent
+// passes a stable callback (a state setter), so the effect runs once.
+function BoundsReporter({ onBoundsChange }: { onBoundsChange: (bounds: MapBounds) => void }) {
+  const report = useCallback((map: LeafletInstance) => {
+    const bounds = map.getBounds();
+    onBoundsChange({
+      south: bounds.getSouth(),
+      west: bounds.getWest(),
+      north: bounds.getNorth(),
+      east: bounds.getEast(),
+    });
+  }, [onBoundsChange]);
+
+  const map = useMapEvents({
+    moveend: () => report(map),
+  });
+
+  useEffect(() => {
+    report(map);
+  }, [map, report]);
+
+  return null;
+}
+
+// Center the map on the member once their position is known
+function FlyToUser({ userLocation }: { userLocation: GeoPoint | null }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (userLocation) map.flyTo([userLocation.lat, userLocation.lng], 10);
+  }, [map, userLocation]);
+
+  return null;
+}
+
+export default function LeafletMap({ locations, userLocation, selectedKey, onBoundsChange, onSelect }: LeafletMapProps) {
+  return (
+    <MapContainer center={SPAIN_CENTER} zoom={SPAIN_ZOOM} scrollWheelZoom className="h-full w-full rounded-lg z-0">
+      <TileLayer
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+      />
+      <BoundsReporter onBoundsChange={onBoundsChange} />
+      <FlyToUser userLocation={userLocation} />
+
+      {locations.map((location) => (
+        <CircleMarker
+          key={location.key}
+          center={[location.lat, location.lng]}
+          radius={markerRadius(location.count)}
+          pathOptions={{
+            color: location.key === selectedKey ? '#1d4ed8' : '#16a34a',
+            fillOpacity: 0.5,
+            // Province centroids are approximate, draw them dashed
+            dashArray: location.precision === 'provincia' ? '4 4' : undefined,
+          }}
+          eventHandlers={{ click: () => onSelect(location.key) }}
+        >
+          <Popup>
+            <strong>{location.nombre}</strong>
+            <br />
+            {location.count} {location.count === 1 ? 'bicicleta' : 'bicicletas'}
+            <ul className="mt-1">
+              {location.bicycles.slice(0, POPUP_BICYCLES).map((bicycle) => (
+                <li key={bicycle.id}>
+                  <Link href={`/bicicleta/${encodeURIComponent(bicycle.id)}`}>
+                    {bicycle.marca} {bicycle.modelo}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+            {location.count > POPUP_BICYCLES && <span>y {location.count - POPUP_BICYCLES} más…</span>}
+          </Popup>
+        </CircleMarker>
+      ))}
+
+      {userLocation && (
+        <CircleMarker
+          center={[userLocation.lat, userLocation.lng]}
+          radius={7}
+          pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#2563eb', fillOpacity: 1 }}
+        >
+          <Popup>Tu ubicación</Popup>
+        </CircleMarker>
+      )}
+    </MapContainer>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import type { BicycleMatch } from '@/types/bicycle';
+
+interface MatchesPanelProps {
+  bicycleId: string;
+  estado?: string;
+}
+
+export default function MatchesPanel({ bicycleId, estado }: MatchesPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [matches, setMatches] = useState<BicycleMatch[] | null>(null);
+
+  const toggle = async () => {
+    setOpen(!open);
+    // Matches are only fetched the first time the panel is opened
+    if (open || matches) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/matches?bicycleId=${encodeURIComponent(bicycleId)}`);
+      const data = await response.json();
+      if (data.success) {
+        setMatches(data.data);
+      } else {
+        setError(data.error || 'Error al buscar coincidencias');
+      }
+    } catch (err) {
+      setError('Error de conexión. Por favor, intenta de nuevo.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const counterpart = estado === 'desaparecida' ? 'localizadas' : 'desaparecidas';
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+      <button
+        type="button"
+        onClick={toggle}
+        className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 text-sm font-medium"
+      >
+        {open ? '▼ Posibles coincidencias' : '▶ Posibles coincidencias'}
+      </button>
+
+      {open && (
+        <div className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+          {loading && <p>Buscando coincidencias...</p>}
+          {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+          {matches && matches.length === 0 && (
+            <p>No hay bicicletas {counterpart} parecidas</p>
+          )}
+          {matches && matches.length > 0 && (
+            <ul className="space-y-2">
+              {matches.map((match) => (
+                <li key={match.bicycle.id} className="rounded-lg bg-gray-50 dark:bg-gray-700/50 p-2">
+                  <div className="flex justify-between font-semibold text-gray-900 dark:text-white">
+                    <span>
+                      {match.bicycle.marca} {match.bicycle.modelo}
+                      {match.bicycle.origen === 'socio' && (
+                        <span className="ml-1 font-normal text-gray-500 dark:text-gray-400">(socio)</span>
+                      )}
+                    </span>
+                    <span>{Math.round(match.score * 100)}%</span>
+                  </div>
+                  <div>
+                    {[match.bicycle.color, match.bicycle.numeroSerie, match.bicycle.ciudad].filter(Boolean).join(' • ')}
+                  </div>
+                  {match.reasons.length > 0 && (
+                    <div className="text-gray-500 dark:text-gray-400">{match.reasons.join(', ')}</div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import type { BicycleTipo, BicycleVisualMatch } from '@/types/bicycle';
+import { thumbnailUrl } from '@/lib/proxyImage';
+
+interface PhotoSearchProps {
+  tipo?: BicycleTipo;
+}
+
+// Upload a photo of a bicycle and list the registered bicycles that look like it
+export default function PhotoSearch({ tipo }: PhotoSearchProps) {
+  const [open, setOpen] = useState(false);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [matches, setMatches] = useState<BicycleVisualMatch[] | null>(null);
+  const [indexed, setIndexed] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Release the preview's object URL when it is replaced
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview);
+    };
+  }, [preview]);
+
+  const search = async (foto: File) => {
+    setPreview(URL.createObjectURL(foto));
+    setLoading(true);
+    setError(null);
+    setMatches(null);
+
+    try {
+      const form = new FormData();
+      form.append('foto', foto);
+      if (tipo) form.append('tipo', tipo);
+
+      const response = await fetch('/api/bicycles/image-search', { method: 'POST', body: form });
+      const data = await response.json();
+
+      if (data.success) {
+        setMatches(data.data);
+        setIndexed(data.indexed);
+      } else {
+        setError(
+          response.status === 413 ? 'La foto es demasiado grande (máximo 8 MB)'
+            : response.status === 429 ? 'Demasiadas búsquedas seguidas. Espera un minuto e inténtalo de nuevo.'
+            : response.status === 400 ? 'El archivo no es una imagen válida'
+            : 'No se pudo analizar la foto'
+        );
+      }
+    } catch (err) {
+      setError('Error de conexión. Por favor, intenta de nuevo.');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 text-sm font-medium"
+      >
+        {open ? '▼ Ocultar búsqueda por foto' : '📷 Buscar por foto de tu bicicleta'}
+      </button>
+
+      {open && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            Sube una foto de tu bicicleta y te mostraremos las que más se le parecen. Funciona mejor con la bici entera, de lado y sobre un fondo despejado.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="cursor-pointer px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors">
+              {loading ? 'Analizando...' : 'Elegir foto'}
+              <input
+                type="file"
+                accept="image/*"
+                className="hidden"
+                disabled={loading}
+                onChange={(e) => {
+                  const foto = e.target.files?.[0];
+                  if (foto) search(foto);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+
+            {preview && (
+              // A local blob URL: there is nothing for the optimizer to fetch
+              <Image src={preview} alt="Tu foto" width={112} height={80} unoptimized className="h-20 w-28 object-cover rounded" />
+            )}
+          </div>
+
+          {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+          {matches && (
+            <div className="mt-4">
+              {matches.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  No hay fotos con las que comparar todavía. Las fotos se analizan a medida que se consultan las bicicletas.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                    Comparada con {indexed} fotos. Las más parecidas:
+                  </p>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                    {matches.map(({ bicycle, score }) => (
+                      <Link
+                        key={bicycle.id}
+                        href={`/bicicleta/${encodeURIComponent(bicycle.id)}`}
+                        className="block rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700 hover:shadow-md transition-shadow"
+                      >
+                        <Image
+                          src={bicycle.imagen ? thumbnailUrl(bicycle.imagen, 256) : '/images/bicicletas/placeholder.svg'}
+                          alt={`${bicycle.marca} ${bicycle.modelo}`}
+                          width={256}
+                          height={96}
+                          unoptimized
+                          className="h-24 w-full object-cover bg-gray-100 dark:bg-gray-700"
+                        />
+                        <div className="p-2 text-xs">
+                          <div className="font-semibold text-gray-900 dark:text-white truncate">{bicycle.marca} {bicycle.modelo}</div>
+                          <div className="text-gray-500 dark:text-gray-400">{Math.round(score * 100)}% parecida</div>
+                        </div>
+                      </Link>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
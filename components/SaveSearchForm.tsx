@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import type { NotificationChannel, SearchFilters } from '@/types/bicycle';
+
+interface SaveSearchFormProps {
+  filters: SearchFilters;
+}
+
+export default function SaveSearchForm({ filters }: SaveSearchFormProps) {
+  const [open, setOpen] = useState(false);
+  const [nombre, setNombre] = useState('');
+  const [email, setEmail] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const hasFilters = Object.entries(filters).some(([key, value]) => key !== 'tipo' && value);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setMessage(null);
+
+    // Webhooks need ADMIN_TOKEN, so the public form only offers email
+    const channels: NotificationChannel[] = [{ type: 'email', to: email }];
+
+    try {
+      const response = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nombre, filters, channels }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage({
+          type: 'success',
+          text: `Búsqueda "${data.data.nombre}" guardada. ${
+            data.data.pendingEmails.length > 0
+              ? `Te hemos enviado un correo a ${data.data.pendingEmails.join(', ')}: abre su enlace para empezar a recibir avisos.`
+              : 'Te avisaremos cuando aparezcan bicicletas nuevas.'
+          } Cada aviso incluye un enlace para darte de baja; también puedes guardar este: ${data.data.unsubscribeUrl}`,
+        });
+        setNombre('');
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Error al guardar la búsqueda' });
+      }
+    } catch (err) {
+      setMessage({ type: 'error', text: 'Error de conexión. Por favor, intenta de nuevo.' });
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!hasFilters) return null;
+
+  return (
+    <div className="mt-4">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 text-sm font-medium"
+      >
+        {open ? '▼ 🔔 Guardar búsqueda y recibir alertas' : '▶ 🔔 Guardar búsqueda y recibir alertas'}
+      </button>
+
+      {open && (
+        <form onSubmit={handleSubmit} className="mt-2 bg-white dark:bg-gray-800 rounded-lg shadow p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input
+            type="text"
+            required
+            value={nombre}
+            onChange={(e) => setNombre(e.target.value)}
+            placeholder="Nombre (ej: Orbea de Ana)"
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+          />
+          <input
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email para avisos"
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+          />
+          <div className="md:col-span-2 flex items-center gap-4">
+            <button
+              type="submit"
+              disabled={saving || !email}
+              className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Guardando...' : 'Guardar'}
+            </button>
+            {message && (
+              <p className={`text-sm ${message.type === 'success' ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}`}>
+                {message.text}
+              </p>
+            )}
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,58 @@
 'use client';
 
-import { useState } from 'react';
-import type { SearchFilters } from '@/types/bicycle';
+import { useEffect, useState } from 'react';
+import type { BicycleTipo, ConfigOption, SearchFilters } from '@/types/bicycle';
+import { DEFAULT_RADIUS_KM } from '@/lib/geo';
+import Combobox from '@/components/Combobox';
+
+const TIPO_OPTIONS: { value: BicycleTipo; label: string }[] = [
+  { value: 'localizadas', label: 'Localizadas' },
+  { value: 'desaparecidas', label: 'Desaparecidas' },
+  { value: 'todas', label: 'Todas' },
+];
+
+// Fields shown under "búsqueda avanzada"
+const ADVANCED_FIELDS: (keyof SearchFilters)[] = [
+  'marca', 'modelo', 'color', 'ciudad', 'provincia', 'numeroSerie', 'numeroMatricula', 'nearCity',
+  'fechaRoboDesde', 'fechaRoboHasta', 'fechaLocalizacionDesde', 'fechaLocalizacionHasta',
+];
+
+const DATE_RANGES: { label: string; desde: keyof SearchFilters; hasta: keyof SearchFilters }[] = [
+  { label: 'Fecha de robo', desde: 'fechaRoboDesde', hasta: 'fechaRoboHasta' },
+  { label: 'Fecha de localización', desde: 'fechaLocalizacionDesde', hasta: 'fechaLocalizacionHasta' },
+];
+
+const RADIUS_OPTIONS = ['5', '10', '25', '50', '100'];
 
 interface SearchFormProps {
+  initialFilters?: SearchFilters;
   onSearch: (filters: SearchFilters) => void;
   loading: boolean;
 }
 
-export default function SearchForm({ onSearch, loading }: SearchFormProps) {
-  const [filters, setFilters] = useState<SearchFilters>({});
-  const [showAdvanced, setShowAdvanced] = useState(false);
+export default function SearchForm({ initialFilters = {}, onSearch, loading }: SearchFormProps) {
+  const [filters, setFilters] = useState<SearchFilters>(initialFilters);
+  const [showAdvanced, setShowAdvanced] = useState(() => ADVANCED_FIELDS.some(field => initialFilters[field]));
+  const [brands, setBrands] = useState<ConfigOption[]>([]);
+  const [colors, setColors] = useState<ConfigOption[]>([]);
+
+  // Load the known brands and colors for autocomplete; free text still works without them
+  useEffect(() => {
+    const loadOptions = async (url: string, setOptions: (options: ConfigOption[]) => void) => {
+      try {
+        const response = await fetch(url);
+        const data = await response.json();
+        if (data.success) {
+          setOptions(data.data);
+        }
+      } catch (err) {
+        console.error(`Error loading ${url}:`, err);
+      }
+    };
+
+    loadOptions('/api/config/brands', setBrands);
+    loadOptions('/api/config/colors', setColors);
+  }, []);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -18,8 +60,16 @@ export default function SearchForm({ onSearch, loading }: SearchFormProps) {
   };
 
   const handleReset = () => {
-    setFilters({});
-    onSearch({});
+    const resetFilters = { tipo: filters.tipo };
+    setFilters(resetFilters);
+    onSearch(resetFilters);
+  };
+
+  // Switching listing searches right away with the current filters
+  const selectTipo = (tipo: BicycleTipo) => {
+    const newFilters = { ...filters, tipo };
+    setFilters(newFilters);
+    onSearch(newFilters);
   };
 
   const updateFilter = (key: keyof SearchFilters, value: string) => {
@@ -29,9 +79,37 @@ export default function SearchForm({ onSearch, loading }: SearchFormProps) {
     }));
   };
 
+  // Set a text filter together with the id of the known option it names, if any
+  const updateOptionFilter = (key: 'marca' | 'color', idKey: 'marcaId' | 'colorId', value: string, optionId?: string) => {
+    setFilters(prev => ({
+      ...prev,
+      [key]: value || undefined,
+      [idKey]: value ? optionId : undefined,
+    }));
+  };
+
   return (
     <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
       <div className="space-y-4">
+        {/* Listing Toggle */}
+        <div className="inline-flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Tipo de bicicletas">
+          {TIPO_OPTIONS.map((option) => {
+            const selected = (filters.tipo || 'localizadas') === option.value;
+            return (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => selectTipo(option.value)}
+                disabled={loading}
+                aria-pressed={selected}
+                className={`px-4 py-2 text-sm font-medium transition-colors disabled:cursor-not-allowed ${selected ? 'bg-blue-600 text-white' : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+
         {/* General Search */}
         <div>
           <label htmlFor="searchTerm" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -59,19 +137,14 @@ export default function SearchForm({ onSearch, loading }: SearchFormProps) {
         {/* Advanced Search Fields */}
         {showAdvanced && (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
-            <div>
-              <label htmlFor="marca" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Marca
-              </label>
-              <input
-                type="text"
-                id="marca"
-                value={filters.marca || ''}
-                onChange={(e) => updateFilter('marca', e.target.value)}
-                placeholder="Ej: Trek, Orbea"
-                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-              />
-            </div>
+            <Combobox
+              id="marca"
+              label="Marca"
+              value={filters.marca || ''}
+              options={brands}
+              onChange={(value, optionId) => updateOptionFilter('marca', 'marcaId', value, optionId)}
+              placeholder="Ej: Trek, Orbea"
+            />
 
             <div>
               <label htmlFor="modelo" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -87,19 +160,14 @@ export default function SearchForm({ onSearch, loading }: SearchFormProps) {
               />
             </div>
 
-            <div>
-              <label htmlFor="color" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Color
-              </label>
-              <input
-                type="text"
-                id="color"
-                value={filters.color || ''}
-                onChange={(e) => updateFilter('color', e.target.value)}
-                placeholder="Ej: Azul, Rojo"
-                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-              />
-            </div>
+            <Combobox
+              id="color"
+              label="Color"
+              value={filters.color || ''}
+              options={colors}
+              onChange={(value, optionId) => updateOptionFilter('color', 'colorId', value, optionId)}
+              placeholder="Ej: Azul, Rojo"
+            />
 
             <div>
               <label htmlFor="ciudad" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -129,6 +197,32 @@ export default function SearchForm({ onSearch, loading }: SearchFormProps) {
               />
             </div>
 
+            <div>
+              <label htmlFor="nearCity" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Cerca de
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  id="nearCity"
+                  value={filters.nearCity || ''}
+                  onChange={(e) => updateFilter('nearCity', e.target.value)}
+                  placeholder="Ej: Getafe"
+                  className="flex-1 min-w-0 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                />
+                <select
+                  aria-label="Radio"
+                  value={filters.radiusKm || String(DEFAULT_RADIUS_KM)}
+                  onChange={(e) => updateFilter('radiusKm', e.target.value)}
+                  className="px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                >
+                  {RADIUS_OPTIONS.map((radius) => (
+                    <option key={radius} value={radius}>{radius} km</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
             <div>
               <label htmlFor="numeroSerie" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Nº Serie
@@ -156,6 +250,33 @@ export default function SearchForm({ onSearch, loading }: SearchFormProps) {
                 className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
               />
             </div>
+
+            {DATE_RANGES.map((range) => (
+              <fieldset key={range.desde}>
+                <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {range.label}
+                </legend>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    aria-label={`${range.label} desde`}
+                    value={filters[range.desde] || ''}
+                    max={filters[range.hasta] || undefined}
+                    onChange={(e) => updateFilter(range.desde, e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                  />
+                  <span className="text-sm text-gray-500 dark:text-gray-400">a</span>
+                  <input
+                    type="date"
+                    aria-label={`${range.label} hasta`}
+                    value={filters[range.hasta] || ''}
+                    min={filters[range.desde] || undefined}
+                    onChange={(e) => updateFilter(range.hasta, e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+              </fieldset>
+            ))}
           </div>
         )}
 
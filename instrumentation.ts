@@ -0,0 +1,9 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { assertAppUrlConfigured } = await import('@/lib/appUrl');
+    assertAppUrlConfigured();
+    const { startSyncScheduler } = await import('@/lib/sync');
+    startSyncScheduler();
+  }
+}
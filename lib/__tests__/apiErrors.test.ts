@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { apiError, classifyError, errorResponse, httpErrorCode, parseRetryAfter } from '@/lib/apiErrors';
+import { failureSince, recordSourceAttempt } from '@/lib/sources/diagnostics';
+
+describe('error classification', () => {
+  it('maps upstream HTTP statuses to codes', () => {
+    expect(httpErrorCode(401)).toBe('UPSTREAM_AUTH_REQUIRED');
+    expect(httpErrorCode(403)).toBe('UPSTREAM_AUTH_REQUIRED');
+    expect(httpErrorCode(429)).toBe('RATE_LIMITED');
+    expect(httpErrorCode(504)).toBe('UPSTREAM_TIMEOUT');
+    expect(httpErrorCode(500)).toBe('UPSTREAM_UNAVAILABLE');
+  });
+
+  it('recognises timeouts and a missing Chromium', () => {
+    expect(classifyError(new DOMException('The operation timed out', 'TimeoutError'))).toBe('UPSTREAM_TIMEOUT');
+    expect(classifyError(new Error("browserType.launch: Executable doesn't exist at /ms-playwright/chromium"))).toBe('BROWSER_UNAVAILABLE');
+    expect(classifyError(new TypeError('fetch failed'))).toBe('UPSTREAM_UNAVAILABLE');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads seconds and HTTP dates', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T10:00:00Z'));
+    expect(parseRetryAfter('120')).toBe(120);
+    expect(parseRetryAfter('Wed, 01 May 2024 10:02:30 GMT')).toBe(150);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe('errorResponse', () => {
+  it('uses the status of the code and sends Retry-After', async () => {
+    const response = errorResponse(apiError('RATE_LIMITED', 'HTTP 429', 30));
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('30');
+    expect(await response.json()).toEqual({ success: false, error: 'HTTP 429', code: 'RATE_LIMITED', retryAfter: 30 });
+  });
+
+  it('leaves out retryAfter for failures a retry will not fix', async () => {
+    const response = errorResponse(apiError('UPSTREAM_LAYOUT_CHANGED', 'No bicycles parsed'));
+    expect(response.status).toBe(502);
+    expect(response.headers.get('retry-after')).toBeNull();
+    expect(await response.json()).not.toHaveProperty('retryAfter');
+  });
+});
+
+describe('failureSince', () => {
+  it('reports the most specific failure of the sources', () => {
+    const since = new Date().toISOString();
+    recordSourceAttempt('rest', 'POST /v1/bicicletas/pagedLocalizadas', { ok: false, latencyMs: 40, httpStatus: 403, itemCount: 0, error: 'HTTP 403', code: 'UPSTREAM_AUTH_REQUIRED' });
+    recordSourceAttempt('html', 'https://biciregistro.es/bicicletas/localizadas', { ok: true, latencyMs: 80, httpStatus: 200, selector: null, itemCount: 0 });
+
+    expect(failureSince(['rest', 'html'], since)).toEqual({ code: 'UPSTREAM_AUTH_REQUIRED', message: 'HTTP 403' });
+    expect(failureSince(['html'], since)).toEqual({ code: 'UPSTREAM_LAYOUT_CHANGED', message: 'No bicycles parsed' });
+    expect(failureSince(['playwright'], since)).toBeNull();
+  });
+});
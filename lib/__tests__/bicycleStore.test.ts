@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Bicycle } from '@/types/bicycle';
+
+function bicycle(id: string): Bicycle {
+  return { id, marca: 'Orbea', modelo: 'Alma', color: 'Rojo', imagen: '', estado: 'localizada' };
+}
+
+const complete = { localizadas: 'rest', desaparecidas: 'rest' } as const;
+
+describe('saveSyncResult', () => {
+  let dir: string;
+  let store: typeof import('@/lib/bicycleStore');
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bicycle-store-'));
+    vi.stubEnv('BICYCLE_STORE_PATH', path.join(dir, 'bicycles.json'));
+    vi.stubEnv('BICYCLE_PRUNE_AFTER_SYNCS', '2');
+    vi.resetModules();
+    store = await import('@/lib/bicycleStore');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const ids = async () => (await store.getStoredBicycles()).map(item => item.id).sort();
+
+  it('drops bicycles that the last complete syncs did not see', async () => {
+    await store.saveSyncResult([bicycle('a'), bicycle('b')], '2024-05-01T10:00:00.000Z', complete);
+    await store.saveSyncResult([bicycle('a')], '2024-05-01T11:00:00.000Z', complete);
+    expect(await ids()).toEqual(['a', 'b']);
+
+    await store.saveSyncResult([bicycle('a')], '2024-05-01T12:00:00.000Z', complete);
+    expect(await ids()).toEqual(['a']);
+  });
+
+  it('stores new bicycles that have no photo', async () => {
+    const { imagen: _imagen, ...withoutPhoto } = bicycle('a');
+    await store.saveSyncResult([withoutPhoto], '2024-05-01T10:00:00.000Z', complete);
+    expect(await ids()).toEqual(['a']);
+  });
+
+  it('does not count syncs that could not read every listing', async () => {
+    await store.saveSyncResult([bicycle('a'), bicycle('b')], '2024-05-01T10:00:00.000Z', complete);
+    await store.saveSyncResult([bicycle('a')], '2024-05-01T11:00:00.000Z', { localizadas: 'rest', desaparecidas: null });
+    await store.saveSyncResult([bicycle('a')], '2024-05-01T12:00:00.000Z', { localizadas: null, desaparecidas: 'html' });
+    expect(await ids()).toEqual(['a', 'b']);
+
+    await store.saveSyncResult([bicycle('a')], '2024-05-01T13:00:00.000Z', complete);
+    await store.saveSyncResult([bicycle('a')], '2024-05-01T14:00:00.000Z', complete);
+    expect(await ids()).toEqual(['a']);
+  });
+});
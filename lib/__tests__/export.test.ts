@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { Bicycle } from '@/types/bicycle';
+import { csvField, exportRecord, exportStream } from '@/lib/export';
+
+const bicycle: Bicycle = {
+  id: 'bike-1',
+  marca: 'Orbea',
+  modelo: 'Alma, M50',
+  color: 'Rojo',
+  descripcion: 'Sillín "gel"\nCandado roto',
+  fechaRobo: '12/03/2024',
+  fechaLocalizacion: '5 de abril de 2024',
+  imagen: '/api/proxy-image?url=https%3A%2F%2Fwww.biciregistro.es%2Ffotos%2F1.jpg',
+};
+
+describe('csvField', () => {
+  it('quotes fields with commas, quotes or line breaks', () => {
+    expect(csvField('Orbea')).toBe('Orbea');
+    expect(csvField('Alma, M50')).toBe('"Alma, M50"');
+    expect(csvField('Sillín "gel"')).toBe('"Sillín ""gel"""');
+    expect(csvField('Candado\r\nroto')).toBe('"Candado\r\nroto"');
+    expect(csvField(undefined)).toBe('');
+  });
+
+  it('keeps spreadsheets from evaluating formulas', () => {
+    expect(csvField('=HYPERLINK("http://example.com")')).toBe('"\'=HYPERLINK(""http://example.com"")"');
+    expect(csvField('+34 600')).toBe("'+34 600");
+    expect(csvField('-1')).toBe("'-1");
+    expect(csvField('@SUM(A1)')).toBe("'@SUM(A1)");
+  });
+});
+
+describe('exportRecord', () => {
+  it('writes ISO dates and the original image URL', () => {
+    const record = exportRecord(bicycle);
+    expect(record.fechaRobo).toBe('2024-03-12');
+    expect(record.fechaLocalizacion).toBe('2024-04-05');
+    expect(record.imagen).toBe('https://www.biciregistro.es/fotos/1.jpg');
+  });
+
+  it('keeps dates it cannot read as written', () => {
+    expect(exportRecord({ ...bicycle, fechaRobo: 'primavera de 2023' }).fechaRobo).toBe('primavera de 2023');
+  });
+});
+
+describe('exportStream', () => {
+  it('writes one CSV record per bicycle, multi-line descriptions included', async () => {
+    const csv = await new Response(exportStream([bicycle], 'csv')).text();
+    const [header, ...rows] = csv.replace(/^\uFEFF/, '').split('\r\n');
+
+    expect(header.startsWith('ID,Estado,Marca,Modelo')).toBe(true);
+    expect(rows.join('\r\n')).toContain('"Sillín ""gel""\nCandado roto"');
+    expect(rows[0]).toContain('bike-1,,Orbea,"Alma, M50",Rojo');
+    expect(rows[0]).toContain('2024-03-12');
+  });
+});
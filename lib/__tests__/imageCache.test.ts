@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('image cache writes', () => {
+  let dir: string;
+  let cache: typeof import('@/lib/imageCache');
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'image-cache-'));
+    vi.stubEnv('IMAGE_CACHE_DIR', dir);
+    vi.resetModules();
+    cache = await import('@/lib/imageCache');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores the same original from concurrent requests', async () => {
+    const body = Buffer.from('photo bytes');
+    const url = 'https://www.biciregistro.es/foto.jpg';
+    const stored = await Promise.all(
+      Array.from({ length: 5 }, () => cache.storeOriginal(url, body, 'image/jpeg'))
+    );
+
+    expect(new Set(stored.map(original => original.hash)).size).toBe(1);
+    expect(await cache.readOriginal(stored[0])).toEqual(body);
+    expect(await cache.lookupOriginal(url)).toEqual(stored[0]);
+    // No temporary files are left behind
+    const names = await fs.readdir(path.join(dir, 'originals'));
+    expect(names).toEqual([stored[0].hash]);
+  });
+});
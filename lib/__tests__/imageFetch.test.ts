@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { fetchImage, isAllowedImageUrl, type ImageFetchOptions } from '@/lib/imageFetch';
+
+const PHOTO = Buffer.from('not really a jpeg');
+
+describe('fetchImage', () => {
+  const paths: string[] = [];
+  let server: http.Server;
+  let base: string;
+  let options: ImageFetchOptions;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      paths.push(request.url || '');
+      switch (request.url) {
+        case '/photo.jpg':
+          response.writeHead(200, { 'Content-Type': 'image/jpeg' });
+          response.end(PHOTO);
+          break;
+        case '/moved.jpg':
+          response.writeHead(301, { Location: '/photo.jpg' });
+          response.end();
+          break;
+        case '/foreign.jpg':
+          response.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data' });
+          response.end();
+          break;
+        case '/big.jpg':
+          // Streamed without Content-Length, so only the running count catches it
+          response.writeHead(200, { 'Content-Type': 'image/jpeg' });
+          response.write(Buffer.alloc(64));
+          response.end(Buffer.alloc(64));
+          break;
+        case '/drawing.svg':
+          response.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+          response.end('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>');
+          break;
+        case '/page.html':
+          response.writeHead(200, { 'Content-Type': 'text/html' });
+          response.end('<html></html>');
+          break;
+        default:
+          response.writeHead(404);
+          response.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    base = `http://127.0.0.1:${port}`;
+    // The stub is on loopback: let it through as if it were a public host
+    options = {
+      hosts: ['127.0.0.1'],
+      requireHttps: false,
+      ports: [String(port)],
+      maxBytes: 100,
+      resolve: async () => ['93.184.216.34'],
+    };
+  });
+
+  beforeEach(() => {
+    paths.length = 0;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('downloads an image, following redirects within the allowed hosts', async () => {
+    const result = await fetchImage(`${base}/moved.jpg`, options);
+    expect(result).toEqual({ ok: true, body: PHOTO, contentType: 'image/jpeg' });
+    expect(paths).toContain('/photo.jpg');
+  });
+
+  it('refuses a redirect to a foreign host', async () => {
+    const result = await fetchImage(`${base}/foreign.jpg`, options);
+    expect(result).toEqual({ ok: false, status: 400, error: 'Invalid image source' });
+  });
+
+  it('refuses hosts that resolve to private or loopback addresses', async () => {
+    for (const resolve of [undefined, async () => ['10.0.0.7'], async () => ['93.184.216.34', '::ffff:127.0.0.1']]) {
+      const result = await fetchImage(`${base}/photo.jpg`, { ...options, resolve });
+      expect(result).toEqual({ ok: false, status: 400, error: 'Invalid image source' });
+    }
+    expect(paths).toEqual([]);
+  });
+
+  it('refuses hosts that do not resolve', async () => {
+    const resolve = async () => {
+      throw Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' });
+    };
+    const result = await fetchImage(`${base}/photo.jpg`, { ...options, resolve });
+    expect(result).toEqual({ ok: false, status: 400, error: 'Invalid image source' });
+    expect(paths).toEqual([]);
+  });
+
+  it('gives up on bodies over the size limit', async () => {
+    const result = await fetchImage(`${base}/big.jpg`, options);
+    expect(result).toEqual({ ok: false, status: 502, error: 'Image too large' });
+  });
+
+  it('refuses responses that are not images', async () => {
+    const result = await fetchImage(`${base}/page.html`, options);
+    expect(result).toEqual({ ok: false, status: 502, error: 'Upstream response is not an image' });
+  });
+
+  it('refuses SVG, which may carry scripts', async () => {
+    const result = await fetchImage(`${base}/drawing.svg`, options);
+    expect(result).toEqual({ ok: false, status: 502, error: 'Upstream response is not an image' });
+  });
+});
+
+describe('isAllowedImageUrl', () => {
+  it('only allows the registry over https on the default port', () => {
+    expect(isAllowedImageUrl('https://www.biciregistro.es/fotos/1.jpg')).toBe(true);
+    expect(isAllowedImageUrl('https://biciregistro.es:443/fotos/1.jpg')).toBe(true);
+    expect(isAllowedImageUrl('https://www.biciregistro.es:8443/fotos/1.jpg')).toBe(false);
+    expect(isAllowedImageUrl('http://www.biciregistro.es/fotos/1.jpg')).toBe(false);
+    expect(isAllowedImageUrl('https://user@www.biciregistro.es/fotos/1.jpg')).toBe(false);
+    expect(isAllowedImageUrl('https://biciregistro.es.example.com/fotos/1.jpg')).toBe(false);
+  });
+});
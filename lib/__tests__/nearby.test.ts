@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { Bicycle } from '@/types/bicycle';
+import { findPlace } from '@/lib/gazetteer';
+import { filterByDistance, filterNearby, resolveNear } from '@/lib/nearby';
+
+function bicycle(id: string, fields: Partial<Bicycle>): Bicycle {
+  return { id, marca: 'Orbea', modelo: 'Alma', color: 'Rojo', ...fields };
+}
+
+describe('findPlace', () => {
+  it('finds a municipality inside a longer text', () => {
+    expect(findPlace('Depósito municipal de Getafe')).toMatchObject({ nombre: 'Getafe', provincia: 'Madrid', precision: 'municipio' });
+    expect(findPlace('valencia')).toMatchObject({ nombre: 'València', precision: 'municipio' });
+  });
+
+  it('knows small municipalities too', () => {
+    expect(findPlace('Villaconejos')).toMatchObject({ provincia: 'Madrid', precision: 'municipio' });
+    expect(findPlace('Zuheros')).toMatchObject({ provincia: 'Córdoba', precision: 'municipio' });
+  });
+
+  it('looks past a first name that is in another province', () => {
+    expect(findPlace('Calle de Toledo, Getafe', 'Madrid')).toMatchObject({ nombre: 'Getafe', precision: 'municipio' });
+    expect(findPlace('Depósito de San Fernando de Henares')).toMatchObject({ nombre: 'San Fernando de Henares' });
+  });
+
+  it('uses the province to tell namesakes apart', () => {
+    expect(findPlace('San Fernando', 'Cádiz')).toMatchObject({ nombre: 'San Fernando', provincia: 'Cádiz', precision: 'municipio' });
+    expect(findPlace('San Fernando de Henares', 'Madrid')).toMatchObject({ nombre: 'San Fernando de Henares', precision: 'municipio' });
+    // San Fernando (Cádiz) is not the place meant in Madrid: only the province is known
+    expect(findPlace('San Fernando', 'Madrid')).toMatchObject({ nombre: 'Madrid', precision: 'provincia' });
+  });
+
+  it('falls back to the province when the place is unknown', () => {
+    expect(findPlace('Atlántida', 'Toledo')).toMatchObject({ nombre: 'Toledo', precision: 'provincia' });
+    expect(findPlace('Calle Mayor, Sevilla')).toMatchObject({ nombre: 'Sevilla' });
+    expect(findPlace('Atlántida')).toBeNull();
+  });
+});
+
+describe('resolveNear', () => {
+  it('is not a distance search without near or nearCity', () => {
+    expect(resolveNear({ marca: 'Orbea' })).toEqual({ near: null });
+  });
+
+  it('resolves a place with the default radius', () => {
+    expect(resolveNear({ nearCity: 'Getafe' })).toEqual({
+      near: { lat: 40.3057, lng: -3.7329, nombre: 'Getafe', radiusKm: 25 },
+    });
+  });
+
+  it('prefers coordinates and caps the radius', () => {
+    expect(resolveNear({ near: '40.4, -3.7', nearCity: 'Sevilla', radiusKm: '5000' })).toEqual({
+      near: { lat: 40.4, lng: -3.7, radiusKm: 1000 },
+    });
+  });
+
+  it('reports what could not be resolved', () => {
+    expect(resolveNear({ nearCity: 'Getafe', radiusKm: '-3' }).error).toBe('Invalid radiusKm');
+    expect(resolveNear({ near: '95,0' }).error).toBe('Invalid near, expected lat,lng');
+    expect(resolveNear({ nearCity: 'Atlantis' }).error).toBe('Unknown place: Atlantis');
+  });
+});
+
+describe('filterByDistance', () => {
+  const foundInMadrid = bicycle('madrid', { estado: 'localizada', deposito: 'Depósito municipal de Madrid', ciudad: 'Madrid', provincia: 'Madrid' });
+  const stolenInGetafe = bicycle('getafe', { estado: 'desaparecida', lugarRobo: 'Getafe', ciudad: 'Madrid', provincia: 'Madrid' });
+  const foundInSevilla = bicycle('sevilla', { estado: 'localizada', ciudad: 'Sevilla', provincia: 'Sevilla' });
+  const nowhere = bicycle('nowhere', { estado: 'localizada' });
+  const bicycles = [foundInMadrid, stolenInGetafe, foundInSevilla, nowhere];
+
+  it('matches a bicycle found in Madrid from a search around Getafe', () => {
+    const { near } = resolveNear({ nearCity: 'Getafe' });
+    const nearby = filterByDistance(bicycles, near!);
+
+    expect(nearby.map(item => item.id)).toEqual(['madrid', 'getafe']);
+    expect(nearby[0].distanciaKm).toBe(12.6);
+    expect(nearby[1].distanciaKm).toBe(0);
+  });
+
+  it('places missing bicycles where they were stolen', () => {
+    const { near } = resolveNear({ nearCity: 'Madrid', radiusKm: '10' });
+    expect(filterByDistance(bicycles, near!).map(item => item.id)).toEqual(['madrid']);
+  });
+
+  it('matches nothing when the place cannot be resolved', () => {
+    expect(filterNearby(bicycles, { nearCity: 'Atlantis' })).toEqual([]);
+    expect(filterNearby(bicycles, {})).toBe(bicycles);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { clientIp, createRateLimiter, createTokenBucket, rateLimit } from '@/lib/rateLimit';
+
+// The proxy in front of the app appends the address it saw
+function request(ip: string, spoofed = '198.51.100.99'): NextRequest {
+  return new NextRequest('http://localhost/api/proxy-image', { headers: { 'x-forwarded-for': `${spoofed}, ${ip}` } });
+}
+
+describe('clientIp', () => {
+  it('uses the address the trusted proxy appended, not the ones the client sent', () => {
+    expect(clientIp(request('203.0.113.5', '1.2.3.4'))).toBe('203.0.113.5');
+    expect(clientIp(request('203.0.113.5', '1.2.3.4, 5.6.7.8'), 2)).toBe('5.6.7.8');
+    expect(clientIp(new NextRequest('http://localhost/', { headers: { 'x-real-ip': '203.0.113.9' } }))).toBe('203.0.113.9');
+    expect(clientIp(new NextRequest('http://localhost/'))).toBe('unknown');
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('counts each client in its own window', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60000, now: () => time });
+
+    expect([limiter.check('a'), limiter.check('a')]).toEqual([0, 0]);
+    time = 15000;
+    expect(limiter.check('a')).toBe(45);
+    expect(limiter.check('b')).toBe(0);
+
+    time = 60000;
+    expect(limiter.check('a')).toBe(0);
+  });
+});
+
+describe('rateLimit', () => {
+  it('answers 429 with Retry-After once the client is over the limit', async () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60000, now: () => 0 });
+
+    expect(rateLimit(request('203.0.113.5'), limiter)).toBeNull();
+    // A different made-up first entry does not make a new client
+    const limited = rateLimit(request('203.0.113.5', '192.0.2.77'), limiter);
+    expect(limited?.status).toBe(429);
+    expect(limited?.headers.get('Retry-After')).toBe('60');
+    expect(await limited?.json()).toMatchObject({ success: false, code: 'RATE_LIMITED' });
+
+    expect(rateLimit(request('198.51.100.7'), limiter)).toBeNull();
+  });
+});
+
+describe('createTokenBucket', () => {
+  it('lets a burst through and then spaces the requests out', () => {
+    let time = 0;
+    const bucket = createTokenBucket({ ratePerSecond: 2, burst: 2, now: () => time });
+
+    expect([bucket.reserve(), bucket.reserve(), bucket.reserve(), bucket.reserve()]).toEqual([0, 0, 500, 1000]);
+    time = 2000;
+    expect(bucket.reserve()).toBe(0);
+  });
+
+  it('refuses a token that would be waited for longer than maxWaitMs', () => {
+    let time = 0;
+    const bucket = createTokenBucket({ ratePerSecond: 1, burst: 1, now: () => time });
+
+    expect([bucket.reserve(1000), bucket.reserve(1000)]).toEqual([0, 1000]);
+    // Refused reservations do not make the queue longer
+    expect([bucket.reserve(1000), bucket.reserve(1000)]).toEqual([2000, 2000]);
+    time = 1000;
+    expect(bucket.reserve(1000)).toBe(1000);
+  });
+});
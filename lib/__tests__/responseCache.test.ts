@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createResponseCache } from '@/lib/responseCache';
+
+function setup() {
+  let time = 0;
+  const cache = createResponseCache<string>({ ttlMs: 60000, staleMs: 300000, maxEntries: 2, now: () => time });
+  return { cache, advance: (ms: number) => { time += ms; } };
+}
+
+describe('createResponseCache', () => {
+  it('shares one load between concurrent misses', async () => {
+    const { cache } = setup();
+    const load = vi.fn(async () => 'result');
+
+    const lookups = await Promise.all([cache.get('a', 1, load), cache.get('a', 1, load), cache.get('a', 1, load)]);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(lookups.map(lookup => lookup.status)).toEqual(['MISS', 'MISS', 'MISS']);
+  });
+
+  it('serves fresh values with their age', async () => {
+    const { cache, advance } = setup();
+    const load = vi.fn(async () => 'result');
+
+    await cache.get('a', 1, load);
+    advance(30000);
+    expect(await cache.get('a', 1, load)).toEqual({ value: 'result', status: 'HIT', age: 30 });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves stale values while refreshing them in the background', async () => {
+    const { cache, advance } = setup();
+    const load = vi.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+
+    await cache.get('a', 1, load);
+    advance(90000);
+    expect(await cache.get('a', 1, load)).toMatchObject({ value: 'old', status: 'STALE' });
+    await Promise.resolve();
+    expect(await cache.get('a', 1, load)).toMatchObject({ value: 'new', status: 'HIT', age: 0 });
+  });
+
+  it('treats values of an older version as stale', async () => {
+    const { cache } = setup();
+    const load = vi.fn().mockResolvedValueOnce('before sync').mockResolvedValueOnce('after sync');
+
+    await cache.get('a', 1, load);
+    expect(await cache.get('a', 2, load)).toMatchObject({ value: 'before sync', status: 'STALE' });
+    await Promise.resolve();
+    expect(await cache.get('a', 2, load)).toMatchObject({ value: 'after sync', status: 'HIT' });
+  });
+
+  it('loads again once the stale window is over, and drops the oldest entries when full', async () => {
+    const { cache, advance } = setup();
+    const load = vi.fn(async () => 'result');
+
+    await cache.get('a', 1, load);
+    advance(400000);
+    expect((await cache.get('a', 1, load)).status).toBe('MISS');
+
+    await cache.get('b', 1, load);
+    await cache.get('c', 1, load);
+    expect((await cache.get('a', 1, load)).status).toBe('MISS');
+    expect(load).toHaveBeenCalledTimes(5);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { isPathAllowed, parseRobots } from '@/lib/robots';
+
+const ROBOTS = `
+# Shared rules
+User-agent: *
+Disallow: /biciregistro/rest/
+Allow: /biciregistro/rest/v1/config/
+
+User-agent: OtherBot
+User-agent: BiciregistroSearch
+Disallow: /admin
+Disallow: /*.pdf$
+Allow: /admin/public
+Disallow:
+`;
+
+describe('robots.txt', () => {
+  it('applies the group of our agent instead of the * group', () => {
+    const rules = parseRobots(ROBOTS, 'BiciregistroSearch');
+    expect(isPathAllowed(rules, '/biciregistro/rest/v1/bicicletas/pagedLocalizadas')).toBe(true);
+    expect(isPathAllowed(rules, '/admin/users')).toBe(false);
+    expect(isPathAllowed(rules, '/admin/public/info')).toBe(true);
+  });
+
+  it('falls back to the * group, where the longest rule wins', () => {
+    const rules = parseRobots(ROBOTS, 'SomeCrawler');
+    expect(isPathAllowed(rules, '/biciregistro/rest/v1/bicicletas/pagedLocalizadas')).toBe(false);
+    expect(isPathAllowed(rules, '/biciregistro/rest/v1/config/getMarcas')).toBe(true);
+    expect(isPathAllowed(rules, '/bicicletas/localizadas?page=2')).toBe(true);
+  });
+
+  it('supports the * and $ wildcards', () => {
+    const rules = parseRobots(ROBOTS, 'BiciregistroSearch');
+    expect(isPathAllowed(rules, '/docs/guia.pdf')).toBe(false);
+    expect(isPathAllowed(rules, '/docs/guia.pdf?v=2')).toBe(true);
+  });
+
+  it('allows everything without rules, and robots.txt itself always', () => {
+    expect(isPathAllowed(parseRobots('', 'BiciregistroSearch'), '/anything')).toBe(true);
+    expect(isPathAllowed(parseRobots('User-agent: *\nDisallow: /', 'BiciregistroSearch'), '/robots.txt')).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Bicycle, NotificationChannel } from '@/types/bicycle';
+
+const store = vi.hoisted(() => ({ bicycles: [] as Bicycle[] }));
+const sent = vi.hoisted(() => ({
+  calls: [] as { channel: NotificationChannel; ids: string[] }[],
+  failing: new Set<string>(),
+  // Holds every send until resolved
+  gate: null as Promise<void> | null,
+}));
+
+vi.mock('@/lib/bicycleStore', () => ({
+  getStoredBicycles: async () => store.bicycles,
+}));
+
+vi.mock('@/lib/notifiers', () => ({
+  createNotifier: (channel: NotificationChannel) => ({
+    async send({ bicycles }: { bicycles: Bicycle[] }) {
+      await sent.gate;
+      sent.calls.push({ channel, ids: bicycles.map(bicycle => bicycle.id) });
+      if (channel.type === 'webhook' && sent.failing.has(channel.url)) throw new Error('HTTP 500');
+    },
+  }),
+}));
+
+function bicycle(id: string): Bicycle {
+  return { id, marca: 'Orbea', modelo: 'Alma', color: 'Rojo', imagen: '', estado: 'localizada' };
+}
+
+const email: NotificationChannel = { type: 'email', to: 'ana@example.com' };
+const webhook: NotificationChannel = { type: 'webhook', url: 'https://hooks.example.com/bicis' };
+
+describe('runSavedSearches', () => {
+  let dir: string;
+  let savedSearches: typeof import('@/lib/savedSearches');
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'saved-searches-'));
+    vi.stubEnv('SAVED_SEARCHES_PATH', path.join(dir, 'saved-searches.json'));
+    vi.resetModules();
+    savedSearches = await import('@/lib/savedSearches');
+    store.bicycles = [bicycle('old')];
+    sent.calls = [];
+    sent.failing.clear();
+    sent.gate = null;
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function createConfirmed(channels: NotificationChannel[]) {
+    const search = await savedSearches.createSavedSearch('Orbeas', { marca: 'Orbea' }, channels);
+    for (const token of Object.values(search.pendingConfirmations || {})) {
+      await savedSearches.confirmSavedSearchChannel(search.id, token);
+    }
+    return search;
+  }
+
+  it('alerts each channel once, retrying only the channel that failed', async () => {
+    await createConfirmed([email, webhook]);
+    store.bicycles = [bicycle('old'), bicycle('new')];
+    sent.failing.add(webhook.url);
+
+    const [first] = await savedSearches.runSavedSearches();
+    expect(first).toMatchObject({ newMatches: 1, notified: false, error: 'webhook: HTTP 500' });
+    expect(sent.calls).toEqual([{ channel: email, ids: ['new'] }, { channel: webhook, ids: ['new'] }]);
+
+    sent.calls = [];
+    sent.failing.clear();
+    const [second] = await savedSearches.runSavedSearches();
+    expect(second).toMatchObject({ newMatches: 1, notified: true });
+    expect(sent.calls).toEqual([{ channel: webhook, ids: ['new'] }]);
+
+    sent.calls = [];
+    const [third] = await savedSearches.runSavedSearches();
+    expect(third).toMatchObject({ newMatches: 0, notified: false });
+    expect(sent.calls).toEqual([]);
+
+    const [search] = await savedSearches.getSavedSearches();
+    expect(search.seenIds.sort()).toEqual(['new', 'old']);
+    expect(search.deliveredIds).toBeUndefined();
+  });
+
+  it('forgets bicycles that left the index', async () => {
+    await createConfirmed([email, webhook]);
+    store.bicycles = [bicycle('old'), bicycle('new')];
+    sent.failing.add(webhook.url);
+    await savedSearches.runSavedSearches();
+
+    store.bicycles = [];
+    sent.calls = [];
+    await savedSearches.runSavedSearches();
+    expect(sent.calls).toEqual([]);
+
+    const [search] = await savedSearches.getSavedSearches();
+    expect(search.seenIds).toEqual([]);
+    expect(search.deliveredIds).toBeUndefined();
+  });
+
+  it('sends nothing to an email address until it is confirmed', async () => {
+    const search = await savedSearches.createSavedSearch('Orbeas', { marca: 'Orbea' }, [email, webhook]);
+    const token = search.pendingConfirmations?.['email:ana@example.com'];
+    expect(token).toBeTruthy();
+    expect(await savedSearches.confirmSavedSearchChannel(search.id, 'wrong')).toBeNull();
+
+    store.bicycles = [bicycle('old'), bicycle('new')];
+    await savedSearches.runSavedSearches();
+    expect(sent.calls).toEqual([{ channel: webhook, ids: ['new'] }]);
+
+    expect(await savedSearches.confirmSavedSearchChannel(search.id, token as string)).toEqual(email);
+    expect(await savedSearches.confirmSavedSearchChannel(search.id, token as string)).toBeNull();
+
+    sent.calls = [];
+    store.bicycles = [bicycle('old'), bicycle('new'), bicycle('newer')];
+    await savedSearches.runSavedSearches();
+    expect(sent.calls).toEqual([{ channel: email, ids: ['newer'] }, { channel: webhook, ids: ['newer'] }]);
+  });
+
+  it('does not hold other changes while alerts are being sent', async () => {
+    await createConfirmed([webhook]);
+    store.bicycles = [bicycle('old'), bicycle('new')];
+    let release = () => {};
+    sent.gate = new Promise(resolve => { release = resolve; });
+
+    const run = savedSearches.runSavedSearches();
+    const other = await savedSearches.createSavedSearch('Rojas', { color: 'Rojo' }, [webhook]);
+    expect(sent.calls).toEqual([]);
+
+    release();
+    await run;
+    expect((await savedSearches.getSavedSearches()).map(search => search.id)).toContain(other.id);
+    expect(sent.calls).toEqual([{ channel: webhook, ids: ['new'] }]);
+  });
+
+  it('drops searches whose only address was never confirmed', async () => {
+    await savedSearches.createSavedSearch('Orbeas', { marca: 'Orbea' }, [email]);
+    vi.useFakeTimers({ now: Date.now() + 8 * 24 * 60 * 60 * 1000, toFake: ['Date'] });
+    try {
+      await savedSearches.runSavedSearches();
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(await savedSearches.getSavedSearches()).toEqual([]);
+    expect(sent.calls).toEqual([]);
+  });
+});
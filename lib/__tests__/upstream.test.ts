@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('robotsAllow', () => {
+  let upstream: typeof import('@/lib/upstream');
+  let robots: () => Response;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    upstream = await import('@/lib/upstream');
+    vi.stubGlobal('fetch', vi.fn(async () => robots()));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('allows everything when there is no robots.txt', async () => {
+    robots = () => new Response(null, { status: 404 });
+    expect(await upstream.robotsAllow('https://www.biciregistro.es/bicicletas/localizadas')).toBe(true);
+  });
+
+  it('disallows everything while robots.txt answers 5xx, until a retry reads it', async () => {
+    robots = () => new Response(null, { status: 503 });
+    expect(await upstream.robotsAllow('https://www.biciregistro.es/bicicletas/localizadas')).toBe(false);
+
+    robots = () => new Response('User-agent: *\nDisallow: /admin\n');
+    expect(await upstream.robotsAllow('https://www.biciregistro.es/bicicletas/localizadas')).toBe(false);
+
+    vi.useFakeTimers({ now: Date.now() + 2 * 60 * 1000, toFake: ['Date'] });
+    expect(await upstream.robotsAllow('https://www.biciregistro.es/bicicletas/localizadas')).toBe(true);
+    expect(await upstream.robotsAllow('https://www.biciregistro.es/admin')).toBe(false);
+  });
+
+  it('disallows everything when robots.txt cannot be reached', async () => {
+    robots = () => {
+      throw new TypeError('fetch failed');
+    };
+    expect(await upstream.robotsAllow('https://www.biciregistro.es/bicicletas/localizadas')).toBe(false);
+  });
+});
+
+describe('upstreamFetch', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('answers 429 itself instead of queueing longer than the cap', async () => {
+    vi.stubEnv('UPSTREAM_CHECK_ROBOTS', '0');
+    vi.stubEnv('UPSTREAM_RATE_PER_SECOND', '0.01');
+    vi.stubEnv('UPSTREAM_BURST', '1');
+    vi.resetModules();
+    const upstream = await import('@/lib/upstream');
+    const fetch = vi.fn(async () => new Response('ok'));
+    vi.stubGlobal('fetch', fetch);
+
+    expect((await upstream.upstreamFetch('https://www.biciregistro.es/a')).status).toBe(200);
+    const refused = await upstream.upstreamFetch('https://www.biciregistro.es/b');
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get('Retry-After')).toBe('100');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
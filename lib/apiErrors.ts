@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import type { ApiError, ApiErrorCode } from '@/types/bicycle';
+
+// Typed failures of the bicycle API and their HTTP responses. Failures of the
+// sources are classified when they happen (see lib/sources/diagnostics.ts)
+// and stored with the sync, so a request can report why there is no data.
+
+const ERROR_STATUS: Record<ApiErrorCode, number> = {
+  INVALID_FILTER: 400,
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_AUTH_REQUIRED: 502,
+  UPSTREAM_LAYOUT_CHANGED: 502,
+  UPSTREAM_UNAVAILABLE: 502,
+  BROWSER_UNAVAILABLE: 503,
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+};
+
+// Seconds before a retry may work. The other codes need a fix, not a retry.
+const DEFAULT_RETRY_AFTER: Partial<Record<ApiErrorCode, number>> = {
+  UPSTREAM_TIMEOUT: 60,
+  UPSTREAM_UNAVAILABLE: 300,
+  RATE_LIMITED: 60,
+};
+
+// When the sources failed in different ways, the first of these is reported
+export const FAILURE_PRIORITY: ApiErrorCode[] = [
+  'RATE_LIMITED',
+  'UPSTREAM_AUTH_REQUIRED',
+  'UPSTREAM_LAYOUT_CHANGED',
+  'UPSTREAM_TIMEOUT',
+  'BROWSER_UNAVAILABLE',
+  'UPSTREAM_UNAVAILABLE',
+  'INTERNAL_ERROR',
+];
+
+export function apiError(code: ApiErrorCode, message: string, retryAfter?: number): ApiError {
+  const seconds = retryAfter ?? DEFAULT_RETRY_AFTER[code];
+  return { code, message, ...(seconds !== undefined && { retryAfter: seconds }) };
+}
+
+export function errorResponse({ code, message, retryAfter }: ApiError): NextResponse {
+  return NextResponse.json(
+    { success: false, error: message, code, ...(retryAfter !== undefined && { retryAfter }) },
+    {
+      status: ERROR_STATUS[code],
+      headers: retryAfter !== undefined ? { 'Retry-After': String(retryAfter) } : undefined,
+    }
+  );
+}
+
+// Code of an unsuccessful HTTP answer from biciregistro.es
+export function httpErrorCode(status: number): ApiErrorCode {
+  if (status === 401 || status === 403) return 'UPSTREAM_AUTH_REQUIRED';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 408 || status === 504) return 'UPSTREAM_TIMEOUT';
+  return 'UPSTREAM_UNAVAILABLE';
+}
+
+// Code of an error thrown while reading biciregistro.es
+export function classifyError(error: unknown): ApiErrorCode {
+  const { name = '', message = '' } = (error || {}) as Error;
+  if (name === 'TimeoutError' || name === 'AbortError' || /timeout/i.test(message)) return 'UPSTREAM_TIMEOUT';
+  if (/executable doesn't exist|browserType\.launch|playwright install/i.test(message)) return 'BROWSER_UNAVAILABLE';
+  if (/\bHTTP 429\b/.test(message)) return 'RATE_LIMITED';
+  return 'UPSTREAM_UNAVAILABLE';
+}
+
+// Seconds of a Retry-After header (delay in seconds or HTTP date)
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
@@ -0,0 +1,11 @@
+// Public URL of this app, used for links in alerts and shared pages and as
+// the contact address of the user agent. Required in production (checked
+// when the server starts); the address of the dev server otherwise.
+export const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+
+// Refuse to start a production server that would send localhost links
+export function assertAppUrlConfigured(): void {
+  if (process.env.NODE_ENV === 'production' && !process.env.APP_URL) {
+    throw new Error('APP_URL is not configured: set it to the public URL of the app');
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+
+// Require `Authorization: Bearer <token>` when the token is configured.
+// Returns the 401 response to send, or null when the request may continue.
+export function requireBearerToken(request: NextRequest, token: string | undefined): NextResponse | null {
+  if (token && !sameSecret(request.headers.get('authorization'), `Bearer ${token}`)) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
+
+// Require `Authorization: Bearer <token>` with the token of the `name`
+// environment variable. Unlike requireBearerToken, everything is refused
+// while it is not configured.
+function requireConfiguredToken(request: NextRequest, name: 'ADMIN_TOKEN' | 'SYNC_TOKEN'): NextResponse | null {
+  if (!process.env[name]) {
+    console.warn(`Refused ${request.method} ${request.nextUrl.pathname}: ${name} is not configured`);
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+  return requireBearerToken(request, process.env[name]);
+}
+
+// For routes that expose or change members' data
+export function requireAdminToken(request: NextRequest): NextResponse | null {
+  return requireConfiguredToken(request, 'ADMIN_TOKEN');
+}
+
+// For routes that make the server fetch from biciregistro.es on demand
+export function requireSyncToken(request: NextRequest): NextResponse | null {
+  return requireConfiguredToken(request, 'SYNC_TOKEN');
+}
+
+// Whether the request carries ADMIN_TOKEN, for public routes that show
+// members' data to admins only
+export function isAdminRequest(request: NextRequest): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  return !!token && sameSecret(request.headers.get('authorization'), `Bearer ${token}`);
+}
+
+// Constant-time comparison of a secret sent by a client
+export function sameSecret(given: string | null | undefined, expected: string | undefined): boolean {
+  if (!given || !expected) return false;
+  const [a, b] = [Buffer.from(given), Buffer.from(expected)];
+  return a.length === b.length && timingSafeEqual(a, b);
+}
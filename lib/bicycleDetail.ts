@@ -0,0 +1,80 @@
+import type { Bicycle, BicycleDetail } from '@/types/bicycle';
+import { getStoredBicycle, getSyncStatus } from '@/lib/bicycleStore';
+import { findBicycleById } from '@/lib/sources/registry';
+import { fetchFicha } from '@/lib/sources/ficha';
+import { createRateLimiter } from '@/lib/rateLimit';
+
+// Full detail of one bicycle: the indexed record plus its ficha on biciregistro.es.
+// Members' own reports are private and never served here.
+
+const FICHA_CACHE_TTL_MS = 60 * 60 * 1000;
+const FICHA_CACHE_MAX_ENTRIES = 500;
+
+// Fichas change rarely and shared links are opened by several people (and
+// link preview bots), so keep them for a while. Least recently used first.
+const fichaCache = new Map<string, { detail: BicycleDetail; expiresAt: number }>();
+
+// Walking the sources for an unknown id is slow and costs the registry a
+// full scrape, so any id (even a made-up one) may only trigger a few of them
+const sourceLookups = createRateLimiter({ limit: 5, windowMs: 60 * 1000 });
+
+function cachedDetail(id: string): BicycleDetail | null {
+  const cached = fichaCache.get(id);
+  if (!cached || cached.expiresAt <= Date.now()) return null;
+
+  fichaCache.delete(id);
+  fichaCache.set(id, cached);
+  return cached.detail;
+}
+
+function cacheDetail(id: string, detail: BicycleDetail): void {
+  fichaCache.delete(id);
+  fichaCache.set(id, { detail, expiresAt: Date.now() + FICHA_CACHE_TTL_MS });
+  if (fichaCache.size > FICHA_CACHE_MAX_ENTRIES) fichaCache.delete(fichaCache.keys().next().value as string);
+}
+
+async function findBicycle(id: string): Promise<Bicycle | null> {
+  const stored = await getStoredBicycle(id);
+  if (stored) return stored;
+
+  // Only until the first sync fills the index, and not too often meanwhile
+  const sync = await getSyncStatus();
+  if (sync.lastSyncAt) return null;
+  if (sourceLookups.check('sources') > 0) {
+    console.log(`Not looking up ${id} in the sources: too many lookups before the first sync`);
+    return null;
+  }
+  return findBicycleById(id);
+}
+
+function basicDetail(bicycle: Bicycle): BicycleDetail {
+  const imagen = bicycle.imagenCompleta || bicycle.imagen;
+  return { ...bicycle, imagenes: imagen ? [imagen] : [], datosRegistro: {} };
+}
+
+export async function getBicycleDetail(id: string): Promise<BicycleDetail | null> {
+  const cached = cachedDetail(id);
+  if (cached) return cached;
+
+  const bicycle = await findBicycle(id);
+  if (!bicycle) return null;
+  if (!bicycle.fichaUrl) return basicDetail(bicycle);
+
+  try {
+    const ficha = await fetchFicha(bicycle.fichaUrl);
+    const detail: BicycleDetail = {
+      ...basicDetail(bicycle),
+      descripcion: ficha.descripcion || bicycle.descripcion,
+      datosDeposito: ficha.deposito,
+      datosRegistro: ficha.datosRegistro,
+    };
+    if (ficha.imagenes.length > 0) detail.imagenes = ficha.imagenes;
+
+    cacheDetail(id, detail);
+    return detail;
+  } catch (error) {
+    // The indexed data is still worth showing without the ficha
+    console.error(`Error fetching ficha of ${id}:`, (error as Error).message);
+    return basicDetail(bicycle);
+  }
+}
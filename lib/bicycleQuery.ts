@@ -0,0 +1,144 @@
+import type { BicycleTipo, NearbyBicycle, SearchFilters, SortField, SortOrder } from '@/types/bicycle';
+import { isoDate, parseDateValue } from '@/lib/dates';
+
+// Query string handling, sorting and pagination for bicycle searches.
+// The same query string is used by /api/bicycles and the home page URL.
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+// Results of the home page as cards or on a map (?vista=mapa)
+export type HomeView = 'cuadricula' | 'mapa';
+
+export function parseHomeView(value: string | null): HomeView {
+  return value === 'mapa' ? 'mapa' : 'cuadricula';
+}
+
+const SORT_FIELDS: SortField[] = ['relevancia', 'fechaLocalizacion', 'marca', 'ciudad', 'distancia'];
+
+// Filters that make relevance the default order
+const SEARCH_PARAMS = ['marca', 'modelo', 'color', 'numeroSerie', 'numeroMatricula', 'ciudad', 'provincia', 'searchTerm'] as const;
+
+// Filters that make distance the default order
+const NEAR_PARAMS = ['near', 'nearCity'] as const;
+
+// SearchFilters fields that are read from / written to the query string
+const FILTER_PARAMS = [
+  'marca', 'marcaId', 'modelo', 'color', 'colorId', 'numeroSerie', 'numeroMatricula',
+  'ciudad', 'provincia', 'searchTerm', 'near', 'nearCity', 'radiusKm',
+  'fechaRoboDesde', 'fechaRoboHasta', 'fechaLocalizacionDesde', 'fechaLocalizacionHasta',
+] as const;
+
+export const DATE_FILTERS = ['fechaRoboDesde', 'fechaRoboHasta', 'fechaLocalizacionDesde', 'fechaLocalizacionHasta'] as const;
+
+export interface QueryOptions {
+  page: number;
+  pageSize: number;
+  sort: SortField;
+  order: SortOrder;
+}
+
+function parseTipo(value: string | null): BicycleTipo {
+  return value === 'desaparecidas' || value === 'todas' ? value : 'localizadas';
+}
+
+export function parseSearchFilters(searchParams: URLSearchParams): SearchFilters {
+  const filters: SearchFilters = { tipo: parseTipo(searchParams.get('tipo')) };
+  for (const param of FILTER_PARAMS) {
+    filters[param] = searchParams.get(param) || undefined;
+  }
+  // Date filters may be written the Spanish way too (12/03/2024)
+  for (const param of DATE_FILTERS) {
+    filters[param] = isoDate(filters[param]);
+  }
+  return filters;
+}
+
+// Name of the first date filter that is not a valid date
+export function invalidDateFilter(filters: SearchFilters): string | undefined {
+  return DATE_FILTERS.find(param => filters[param] && Number.isNaN(parseDateValue(filters[param])));
+}
+
+// Query string for a search; empty values and the default listing are left out
+export function searchQueryString(filters: SearchFilters, options: { sort?: SortField; page?: number } = {}): string {
+  const params = new URLSearchParams();
+  for (const param of FILTER_PARAMS) {
+    const value = filters[param];
+    if (value) params.set(param, value);
+  }
+  if (filters.tipo && filters.tipo !== 'localizadas') params.set('tipo', filters.tipo);
+  if (options.sort) params.set('sort', options.sort);
+  if (options.page && options.page > 1) params.set('page', String(options.page));
+  return params.toString();
+}
+
+// Sort of a search whose query string has none: nearest first around a
+// place, best matches first when searching, newest first when browsing.
+// The home page leaves it out of its URLs.
+export function defaultSort(filters: SearchFilters): SortField {
+  if (NEAR_PARAMS.some(param => filters[param])) return 'distancia';
+  return SEARCH_PARAMS.some(param => filters[param]) ? 'relevancia' : 'fechaLocalizacion';
+}
+
+// Read page/pageSize/sort/order from the query string, falling back to defaults
+export function parseQueryOptions(searchParams: URLSearchParams): QueryOptions {
+  const page = Math.max(1, Number.parseInt(searchParams.get('page') || '', 10) || 1);
+  const pageSize = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, Number.parseInt(searchParams.get('pageSize') || '', 10) || DEFAULT_PAGE_SIZE)
+  );
+
+  const requestedSort = searchParams.get('sort') as SortField | null;
+  const sort = requestedSort && SORT_FIELDS.includes(requestedSort)
+    ? requestedSort
+    : defaultSort(parseSearchFilters(searchParams));
+
+  // Best/newest first for relevance and dates, nearest first and alphabetical otherwise
+  const requestedOrder = searchParams.get('order');
+  const order: SortOrder = requestedOrder === 'asc' || requestedOrder === 'desc'
+    ? requestedOrder
+    : sort === 'fechaLocalizacion' || sort === 'relevancia' ? 'desc' : 'asc';
+
+  return { page, pageSize, sort, order };
+}
+
+// Sort bicycles. For relevancia the input is expected to be already ranked.
+export function sortBicycles<T extends NearbyBicycle>(bicycles: T[], sort: SortField, order: SortOrder): T[] {
+  if (sort === 'relevancia') {
+    return order === 'asc' ? [...bicycles].reverse() : bicycles;
+  }
+
+  const direction = order === 'asc' ? 1 : -1;
+
+  return [...bicycles].sort((a, b) => {
+    if (sort === 'fechaLocalizacion') {
+      const aDate = parseDateValue(a.fechaLocalizacion);
+      const bDate = parseDateValue(b.fechaLocalizacion);
+      // Bicycles without a date always go last
+      if (Number.isNaN(aDate)) return Number.isNaN(bDate) ? 0 : 1;
+      if (Number.isNaN(bDate)) return -1;
+      return (aDate - bDate) * direction;
+    }
+
+    if (sort === 'distancia') {
+      // Only set in near / nearCity searches; bicycles without it go last
+      if (a.distanciaKm === undefined) return b.distanciaKm === undefined ? 0 : 1;
+      if (b.distanciaKm === undefined) return -1;
+      return (a.distanciaKm - b.distanciaKm) * direction;
+    }
+
+    const aText = a[sort] || '';
+    const bText = b[sort] || '';
+    if (!aText) return bText ? 1 : 0;
+    if (!bText) return -1;
+    return aText.localeCompare(bText, 'es', { sensitivity: 'base' }) * direction;
+  });
+}
+
+export function paginate<T>(items: T[], page: number, pageSize: number): { items: T[]; hasMore: boolean } {
+  const start = (page - 1) * pageSize;
+  return {
+    items: items.slice(start, start + pageSize),
+    hasMore: start + pageSize < items.length,
+  };
+}
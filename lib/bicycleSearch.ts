@@ -0,0 +1,122 @@
+import { after } from 'next/server';
+import type { ApiError, NearbyBicycle, NearOrigin, SearchFilters } from '@/types/bicycle';
+import { filterBicycles, normalizeText } from '@/lib/search';
+import { filterByDistance, resolveNear } from '@/lib/nearby';
+import { getStoreVersion, getStoredBicycles, getSyncStatus, type SyncStatus } from '@/lib/bicycleStore';
+import { listadosForTipo } from '@/lib/sources/shared';
+import { apiError } from '@/lib/apiErrors';
+import { requestTargetedRefresh, runSync } from '@/lib/sync';
+import { createResponseCache, type CacheStatus } from '@/lib/responseCache';
+import { invalidDateFilter, parseQueryOptions, parseSearchFilters, sortBicycles, type QueryOptions } from '@/lib/bicycleQuery';
+
+// Search the local index from a query string, shared by /api/bicycles and the
+// server-rendered home page
+
+// Sorted matches of each search, so repeated searches and the following pages
+// skip filtering and ranking the whole index. A sync makes them stale.
+const searchCache = createResponseCache<NearbyBicycle[]>({
+  ttlMs: Number(process.env.SEARCH_CACHE_TTL_SECONDS ?? 60) * 1000,
+  staleMs: Number(process.env.SEARCH_CACHE_STALE_SECONDS ?? 300) * 1000,
+  maxEntries: 500,
+});
+
+export interface IndexSearch {
+  filters: SearchFilters;
+  options: QueryOptions;
+  bicycles: NearbyBicycle[]; // Every match, sorted
+  near: NearOrigin | null;
+  nearError?: string; // near / nearCity / radiusKm could not be resolved
+  dateError?: string; // A date filter is not a date
+  lastSyncAt: string | null;
+  // The last sync failed, or no source could fetch one of the searched
+  // listings, or the first sync is still running: results may be missing or
+  // out of date
+  degraded: boolean;
+  syncing: boolean; // No sync finished yet and one is running: the index is empty until it ends
+  source: string | null; // Source(s) the searched listings were fetched from
+  // Set when no sync ever succeeded: the index is empty because of this failure
+  failure?: ApiError;
+  cache?: { status: CacheStatus; age: number }; // Not set when a filter was invalid
+}
+
+// Same key for the same search whatever the case, accents or spacing of the
+// filters. Pagination is left out: every page comes from the same matches.
+function searchKey(filters: SearchFilters, { sort, order }: QueryOptions): string {
+  const values = Object.entries(filters)
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}=${normalizeText(value)}`)
+    .sort();
+  return [...values, `sort=${sort}`, `order=${order}`].join('&');
+}
+
+// Health of the listings a search covers, from the last sync attempt
+export function sourceStatus(sync: SyncStatus, filters: SearchFilters): { degraded: boolean; source: string | null } {
+  const used = listadosForTipo(filters.tipo).map(listado => sync.sources?.[listado]);
+  const names = [...new Set(used.filter((name): name is string => !!name))];
+
+  return {
+    degraded: !!sync.lastError || used.includes(null),
+    source: names.length > 0 ? names.join(',') : null,
+  };
+}
+
+// Why the index is empty, when no sync ever succeeded. The Retry-After of
+// the failed attempt counts from that attempt.
+function syncFailure(sync: SyncStatus): ApiError | undefined {
+  if (sync.lastSyncAt || !sync.lastError) return undefined;
+
+  let retryAfter = sync.retryAfter;
+  if (retryAfter !== undefined && sync.lastAttemptAt) {
+    const elapsed = (Date.now() - Date.parse(sync.lastAttemptAt)) / 1000;
+    retryAfter = Math.max(1, Math.ceil(retryAfter - elapsed));
+  }
+  return apiError(sync.lastErrorCode || 'UPSTREAM_UNAVAILABLE', sync.lastError, retryAfter);
+}
+
+export async function searchIndex(searchParams: URLSearchParams): Promise<IndexSearch> {
+  const filters = parseSearchFilters(searchParams);
+
+  // Answer from the local index. When no sync ever finished, start one in
+  // the background instead of holding the request for the whole scrape.
+  const sync = await getSyncStatus();
+  const syncing = !sync.lastAttemptAt;
+  if (syncing) {
+    after(runSync().catch(error => console.error('Background sync failed:', error)));
+  }
+
+  // A known brand / colour also asks the registry for it in the next sync
+  requestTargetedRefresh(filters).catch(error => console.error('Targeted refresh request failed:', error));
+
+  const options = parseQueryOptions(searchParams);
+  const { near, error: nearError } = resolveNear(filters);
+  const invalidDate = invalidDateFilter(filters);
+  const dateError = invalidDate && `Invalid ${invalidDate}, expected yyyy-mm-dd`;
+
+  let bicycles: NearbyBicycle[] = [];
+  let cache: IndexSearch['cache'];
+  if (!nearError && !dateError) {
+    const lookup = await searchCache.get(searchKey(filters, options), await getStoreVersion(), async () => {
+      let matches: NearbyBicycle[] = filterBicycles(await getStoredBicycles(), filters);
+      if (near) matches = filterByDistance(matches, near);
+      return sortBicycles(matches, options.sort, options.order);
+    });
+    bicycles = lookup.value;
+    cache = { status: lookup.status, age: lookup.age };
+  }
+
+  const status = sourceStatus(sync, filters);
+  return {
+    filters,
+    options,
+    bicycles,
+    near,
+    nearError,
+    dateError,
+    lastSyncAt: sync.lastSyncAt,
+    ...status,
+    degraded: status.degraded || syncing,
+    syncing,
+    failure: syncFailure(sync),
+    cache,
+  };
+}
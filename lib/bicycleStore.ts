@@ -0,0 +1,191 @@
+import type { ApiError, ApiErrorCode, Bicycle } from '@/types/bicycle';
+import { dataFilePath, fileMtime, readJsonFile, writeJsonFile } from '@/lib/jsonFile';
+import type { Listado } from '@/lib/sources/shared';
+import { sourceImageUrl } from '@/lib/proxyImage';
+
+// File-backed store for the local bicycle index.
+// The whole index is kept as a single JSON document, which is plenty for the
+// few thousand records biciregistro.es publishes and needs no native modules.
+
+export interface SyncStatus {
+  lastSyncAt: string | null; // Last successful sync (ISO)
+  lastAttemptAt: string | null; // Last sync attempt, successful or not (ISO)
+  lastError: string | null; // Error message of the last failed attempt
+  lastErrorCode?: ApiErrorCode;
+  retryAfter?: number; // Seconds after the last attempt, for RATE_LIMITED and other transient codes
+  // Source that supplied each listing in the last attempt, null when every
+  // source failed for it (missing in stores written before it was recorded)
+  sources?: Partial<Record<Listado, string | null>>;
+}
+
+interface StoreData {
+  version: 1;
+  sync: SyncStatus;
+  // Times of the last syncs that read every listing, newest first
+  completeSyncs?: string[];
+  bicycles: Record<string, Bicycle>;
+}
+
+const STORE_PATH = dataFilePath(process.env.BICYCLE_STORE_PATH, 'bicycles.json');
+
+// Bicycles that none of this many complete syncs saw are dropped: they left
+// the registry (returned or deleted), or were stored under an older id
+const PRUNE_AFTER_SYNCS = Math.max(1, Number(process.env.BICYCLE_PRUNE_AFTER_SYNCS) || 3);
+
+let cache: { data: StoreData; mtimeMs: number } | null = null;
+
+function emptyStore(): StoreData {
+  return {
+    version: 1,
+    sync: { lastSyncAt: null, lastAttemptAt: null, lastError: null },
+    bicycles: {},
+  };
+}
+
+async function readStore(): Promise<StoreData> {
+  const mtimeMs = await fileMtime(STORE_PATH);
+  if (mtimeMs === null) {
+    return emptyStore();
+  }
+  if (cache && cache.mtimeMs === mtimeMs) {
+    return cache.data;
+  }
+
+  const file = await readJsonFile<StoreData>(STORE_PATH);
+  if (!file) {
+    return emptyStore();
+  }
+  cache = file;
+  return file.data;
+}
+
+async function writeStore(data: StoreData): Promise<void> {
+  const mtimeMs = await writeJsonFile(STORE_PATH, data);
+  cache = { data, mtimeMs };
+}
+
+// Serialize read-modify-write cycles on the store (a sync and a targeted
+// refresh may finish together)
+let queue: Promise<unknown> = Promise.resolve();
+
+function withLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task, task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+// Get every stored bicycle, most recently seen first
+export async function getStoredBicycles(): Promise<Bicycle[]> {
+  const data = await readStore();
+  return Object.values(data.bicycles).sort((a, b) =>
+    (b.vistoUltimaVez || '').localeCompare(a.vistoUltimaVez || '')
+  );
+}
+
+export async function getStoredBicycle(id: string): Promise<Bicycle | null> {
+  const data = await readStore();
+  return data.bicycles[id] || null;
+}
+
+// Changes whenever the store is written, e.g. to invalidate derived caches
+export async function getStoreVersion(): Promise<number> {
+  return (await fileMtime(STORE_PATH)) ?? 0;
+}
+
+export async function getSyncStatus(): Promise<SyncStatus> {
+  const data = await readStore();
+  return data.sync;
+}
+
+// Insert or update bicycles seen at `seenAt`
+function upsertBicycles(stored: Record<string, Bicycle>, bicycles: Bicycle[], seenAt: string): Record<string, Bicycle> {
+  const next = { ...stored };
+  for (const bicycle of bicycles) {
+    const previous = next[bicycle.id];
+    next[bicycle.id] = {
+      ...bicycle,
+      // Derived from the photo, so only valid while the photo is the same
+      // (whether or not it is wrapped in our proxy)
+      colorInferido: previous && sourceImageUrl(previous.imagen) === sourceImageUrl(bicycle.imagen)
+        ? previous.colorInferido
+        : undefined,
+      vistoPrimeraVez: previous?.vistoPrimeraVez || seenAt,
+      vistoUltimaVez: seenAt,
+    };
+  }
+  return next;
+}
+
+// Drop the bicycles last seen before the oldest of the last PRUNE_AFTER_SYNCS
+// complete syncs
+function pruneUnseen(bicycles: Record<string, Bicycle>, completeSyncs: string[]): Record<string, Bicycle> {
+  if (completeSyncs.length < PRUNE_AFTER_SYNCS) return bicycles;
+
+  const cutoff = completeSyncs[PRUNE_AFTER_SYNCS - 1];
+  return Object.fromEntries(
+    Object.entries(bicycles).filter(([, bicycle]) => (bicycle.vistoUltimaVez || '') >= cutoff)
+  );
+}
+
+// Insert or update the bicycles seen in a successful sync.
+// Bicycles that were not seen keep their previous vistoUltimaVez, and are
+// pruned once PRUNE_AFTER_SYNCS complete syncs in a row missed them. A sync
+// where some listing could not be read does not count towards that.
+export function saveSyncResult(
+  bicycles: Bicycle[],
+  syncedAt: string,
+  sources: SyncStatus['sources'] = {}
+): Promise<void> {
+  return withLock(async () => {
+    const data = await readStore();
+    const complete = Object.values(sources).every(Boolean);
+    const completeSyncs = complete
+      ? [syncedAt, ...(data.completeSyncs || [])].slice(0, PRUNE_AFTER_SYNCS)
+      : data.completeSyncs || [];
+    const upserted = upsertBicycles(data.bicycles, bicycles, syncedAt);
+
+    await writeStore({
+      ...data,
+      sync: { lastSyncAt: syncedAt, lastAttemptAt: syncedAt, lastError: null, sources },
+      completeSyncs,
+      bicycles: complete ? pruneUnseen(upserted, completeSyncs) : upserted,
+    });
+  });
+}
+
+// Insert or update bicycles fetched outside a full sync (see requestTargetedRefresh)
+export function mergeBicycles(bicycles: Bicycle[], seenAt: string): Promise<void> {
+  return withLock(async () => {
+    if (bicycles.length === 0) return;
+    const data = await readStore();
+    await writeStore({ ...data, bicycles: upsertBicycles(data.bicycles, bicycles, seenAt) });
+  });
+}
+
+// Set the colorInferido of stored bicycles (id -> color)
+export function saveInferredColors(colors: Record<string, string>): Promise<void> {
+  return withLock(async () => {
+    const data = await readStore();
+    const bicycles = { ...data.bicycles };
+
+    for (const [id, color] of Object.entries(colors)) {
+      if (bicycles[id]) bicycles[id] = { ...bicycles[id], colorInferido: color };
+    }
+
+    await writeStore({ ...data, bicycles });
+  });
+}
+
+export function saveSyncFailure(
+  { message, code, retryAfter }: ApiError,
+  attemptedAt: string,
+  sources: SyncStatus['sources'] = {}
+): Promise<void> {
+  return withLock(async () => {
+    const data = await readStore();
+    await writeStore({
+      ...data,
+      sync: { ...data.sync, lastAttemptAt: attemptedAt, lastError: message, lastErrorCode: code, retryAfter, sources },
+    });
+  });
+}
@@ -0,0 +1,25 @@
+import type { ConfigOption } from '@/types/bicycle';
+import { upstreamFetch } from '@/lib/upstream';
+
+// Bicycle brands of biciregistro.es (/api/config/brands)
+
+const BRANDS_URL = 'https://www.biciregistro.es/biciregistro/rest/v1/config/getMarcas';
+
+export async function fetchBrandOptions(): Promise<ConfigOption[]> {
+  const response = await upstreamFetch(BRANDS_URL, {
+    headers: {
+      'Accept': 'application/json',
+    },
+    cache: 'force-cache',
+    next: { revalidate: 3600 }, // Cache for 1 hour
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const brands = await response.json();
+  return brands
+    .map((b: { id: string | number; marca?: string }) => ({ id: b.id, label: b.marca?.trim() || '' }))
+    .filter((b: ConfigOption) => b.label);
+}
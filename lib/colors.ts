@@ -0,0 +1,216 @@
+import sharp from 'sharp';
+import type { Bicycle, ConfigOption } from '@/types/bicycle';
+import { normalizeText } from '@/lib/search';
+import { downloadImage } from '@/lib/sources/shared';
+import { upstreamFetch } from '@/lib/upstream';
+import { isAllowedImageUrl } from '@/lib/imageFetch';
+import { getStoredBicycles, saveInferredColors } from '@/lib/bicycleStore';
+import { indexImage } from '@/lib/imageIndex';
+import { sourceImageUrl } from '@/lib/proxyImage';
+
+// Frame colour of a bicycle read from its photo, named with the canonical
+// colours of biciregistro.es (/api/config/colors)
+
+const COLORS_URL = 'https://www.biciregistro.es/biciregistro/rest/v1/config/getColors';
+
+// Reference colours (sRGB); a name may have several shades
+const PALETTE: { nombre: string; rgb: [number, number, number][] }[] = [
+  { nombre: 'Negro', rgb: [[20, 20, 20], [45, 45, 50]] },
+  { nombre: 'Blanco', rgb: [[245, 245, 245], [225, 225, 220]] },
+  { nombre: 'Gris', rgb: [[110, 110, 110], [80, 85, 90]] },
+  { nombre: 'Plata', rgb: [[185, 188, 192], [160, 165, 170]] },
+  { nombre: 'Rojo', rgb: [[200, 30, 35], [230, 50, 50]] },
+  { nombre: 'Granate', rgb: [[115, 20, 35]] },
+  { nombre: 'Naranja', rgb: [[240, 125, 20]] },
+  { nombre: 'Amarillo', rgb: [[245, 210, 30], [230, 230, 80]] },
+  { nombre: 'Verde', rgb: [[40, 150, 60], [30, 90, 45], [140, 200, 60]] },
+  { nombre: 'Azul', rgb: [[30, 70, 180], [20, 40, 100], [100, 170, 230]] },
+  { nombre: 'Morado', rgb: [[110, 50, 150]] },
+  { nombre: 'Rosa', rgb: [[235, 120, 170]] },
+  { nombre: 'Marrón', rgb: [[110, 70, 40]] },
+  { nombre: 'Beige', rgb: [[215, 195, 160]] },
+];
+
+const SAMPLE_SIZE = 48;
+// Outer ring of the photo, mostly background
+const BORDER_FRACTION = 0.15;
+// Minimum share of the photo's centre (minus the background) for a frame colour
+const MIN_FRAME_SHARE = 0.08;
+const MAX_COLORS = 2;
+// Photos analysed per sync; the rest are picked up by the next syncs
+const INFERENCE_BATCH = 100;
+// A photo that could not be downloaded is tried again after this long
+const DOWNLOAD_RETRY_MS = 6 * 60 * 60 * 1000;
+
+// Bicycle id -> when its photo last failed to download
+const downloadFailures = new Map<string, number>();
+
+type Lab = [number, number, number];
+
+function toLab([r, g, b]: [number, number, number]): Lab {
+  const linear = (channel: number) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+}
+
+const PALETTE_LAB = PALETTE.flatMap((color, index) => color.rgb.map(rgb => ({ index, lab: toLab(rgb) })));
+
+function nearestColor(rgb: [number, number, number]): number {
+  const lab = toLab(rgb);
+  let best = 0;
+  let bestDistance = Infinity;
+  for (const reference of PALETTE_LAB) {
+    const distance = (lab[0] - reference.lab[0]) ** 2 + (lab[1] - reference.lab[1]) ** 2 + (lab[2] - reference.lab[2]) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = reference.index;
+    }
+  }
+  return best;
+}
+
+// Dominant frame colours of a photo (palette names, most dominant first).
+// Colours that fill the border of the photo are taken as background and
+// discounted from the centre, where the bicycle usually is.
+export async function dominantColors(buffer: Buffer): Promise<string[]> {
+  const { data } = await sharp(buffer, { failOn: 'none' })
+    .rotate()
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const border = Math.round(SAMPLE_SIZE * BORDER_FRACTION);
+  const center = new Array<number>(PALETTE.length).fill(0);
+  const edge = new Array<number>(PALETTE.length).fill(0);
+  let centerPixels = 0;
+  let edgePixels = 0;
+
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    for (let x = 0; x < SAMPLE_SIZE; x++) {
+      const i = (y * SAMPLE_SIZE + x) * 3;
+      const color = nearestColor([data[i], data[i + 1], data[i + 2]]);
+      const isEdge = x < border || y < border || x >= SAMPLE_SIZE - border || y >= SAMPLE_SIZE - border;
+      if (isEdge) {
+        edge[color]++;
+        edgePixels++;
+      } else {
+        center[color]++;
+        centerPixels++;
+      }
+    }
+  }
+
+  const scores = PALETTE.map((color, index) => ({
+    nombre: color.nombre,
+    score: center[index] / centerPixels - edge[index] / edgePixels,
+    share: center[index] / centerPixels,
+  }));
+
+  const frame = scores
+    .filter(color => color.score >= MIN_FRAME_SHARE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_COLORS);
+  if (frame.length > 0) return frame.map(color => color.nombre);
+
+  // Frame and background alike (e.g. a black bike on asphalt): most common centre colour
+  return [scores.sort((a, b) => b.share - a.share)[0].nombre];
+}
+
+// Canonical colours of the registry
+export async function fetchColorOptions(): Promise<ConfigOption[]> {
+  const response = await upstreamFetch(COLORS_URL, {
+    headers: {
+      'Accept': 'application/json',
+    },
+    cache: 'force-cache',
+    next: { revalidate: 3600 }, // Cache for 1 hour
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const colors = await response.json();
+  return colors
+    .map((c: { id: string | number; color?: string }) => ({ id: c.id, label: c.color?.trim() || '' }))
+    .filter((c: ConfigOption) => c.label);
+}
+
+// Registry label for a palette name ("Plata" -> "Gris / Plata"), or the
+// palette name itself when the registry has no such colour
+export function canonicalColor(nombre: string, options: ConfigOption[]): string {
+  const key = normalizeText(nombre);
+  const exact = options.find(option => normalizeText(option.label) === key);
+  if (exact) return exact.label;
+
+  const partial = options.find(option => normalizeText(option.label).split(/[^a-z]+/).includes(key));
+  return partial ? partial.label : nombre;
+}
+
+// Whether a photo that failed to download may be tried again
+function downloadDue(id: string, now: number): boolean {
+  const failedAt = downloadFailures.get(id);
+  return failedAt === undefined || now - failedAt >= DOWNLOAD_RETRY_MS;
+}
+
+function photoUrl(bicycle: Bicycle): string | null {
+  const url = sourceImageUrl(bicycle.imagenCompleta) || sourceImageUrl(bicycle.imagen);
+  return url && isAllowedImageUrl(url) ? url : null;
+}
+
+// Read the frame colour of stored bicycles that do not have a colorInferido
+// yet. Photos that download but cannot be decoded get an empty colorInferido
+// so they are not retried on every sync; photos that fail to download keep
+// none and are tried again on a later sync. Returns how many bicycles were
+// analysed.
+export async function inferMissingColors(): Promise<number> {
+  const now = Date.now();
+  const pending = (await getStoredBicycles())
+    .filter(bicycle => bicycle.colorInferido === undefined && photoUrl(bicycle) && downloadDue(bicycle.id, now))
+    .slice(0, INFERENCE_BATCH);
+  if (pending.length === 0) return 0;
+
+  // Without the registry's list the palette names are used as they are
+  let options: ConfigOption[] = [];
+  try {
+    options = await fetchColorOptions();
+  } catch (error) {
+    console.error('Error fetching canonical colors:', error);
+  }
+
+  const inferred: Record<string, string> = {};
+  for (const bicycle of pending) {
+    const url = photoUrl(bicycle) as string;
+    let photo: Buffer;
+    try {
+      photo = await downloadImage(url);
+      downloadFailures.delete(bicycle.id);
+    } catch (error) {
+      console.error(`Error downloading the photo of bicycle ${bicycle.id}:`, (error as Error).message);
+      downloadFailures.set(bicycle.id, now);
+      continue;
+    }
+
+    try {
+      const colors = await dominantColors(photo);
+      inferred[bicycle.id] = [...new Set(colors.map(color => canonicalColor(color, options)))].join('/');
+    } catch (error) {
+      console.error(`Error reading the color of bicycle ${bicycle.id}:`, error);
+      inferred[bicycle.id] = '';
+      continue;
+    }
+    // The photo is here already, fingerprint it for the search by photo too
+    await indexImage(url, photo);
+  }
+
+  if (Object.keys(inferred).length > 0) await saveInferredColors(inferred);
+  return pending.length;
+}
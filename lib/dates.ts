@@ -0,0 +1,80 @@
+// Dates as the registry writes them ("12/03/2024", "12-03-24",
+// "12 de marzo de 2024", ISO) and as we store them (yyyy-mm-dd).
+// Safe to use in client components.
+
+const MONTHS: Record<string, number> = {
+  enero: 1, ene: 1,
+  febrero: 2, feb: 2,
+  marzo: 3, mar: 3,
+  abril: 4, abr: 4,
+  mayo: 5, may: 5,
+  junio: 6, jun: 6,
+  julio: 7, jul: 7,
+  agosto: 8, ago: 8,
+  septiembre: 9, setiembre: 9, sep: 9, sept: 9, set: 9,
+  octubre: 10, oct: 10,
+  noviembre: 11, nov: 11,
+  diciembre: 12, dic: 12,
+};
+
+// Timestamp of a calendar day, NaN when the day does not exist (31/02)
+function utcDay(year: number, month: number, day: number): number {
+  if (year < 100) year += 2000;
+  const timestamp = Date.UTC(year, month - 1, day);
+  const date = new Date(timestamp);
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? timestamp
+    : Number.NaN;
+}
+
+// Parse a date into a UTC timestamp (NaN when unknown)
+export function parseDateValue(value?: string): number {
+  const text = value?.trim().toLowerCase();
+  if (!text) return Number.NaN;
+
+  // dd/mm/yyyy, dd-mm-yy, dd.mm.yyyy, with an optional time after it
+  const numeric = text.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4}|\d{2})(?!\d)/);
+  if (numeric) {
+    return utcDay(Number(numeric[3]), Number(numeric[2]), Number(numeric[1]));
+  }
+
+  // 12 de marzo de 2024, 12 marzo 2024, 12-mar-2024
+  const written = text.match(/^(\d{1,2})(?:\s+de\s+|[\s\-]+)([a-zñ]+)\.?(?:\s+de\s+|[\s\-]+)(\d{4})/);
+  if (written && MONTHS[written[2]]) {
+    return utcDay(Number(written[3]), MONTHS[written[2]], Number(written[1]));
+  }
+
+  // yyyy-mm-dd, optionally with a time; only the calendar day is kept
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return utcDay(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  return Number.NaN;
+}
+
+// yyyy-mm-dd for a recognized date; anything else is kept as written so no
+// information is lost. Numbers are epoch milliseconds, as some JSON APIs send.
+export function isoDate(value?: string | number): string | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? new Date(value).toISOString().substring(0, 10) : undefined;
+  }
+
+  const text = value?.trim();
+  if (!text) return undefined;
+
+  const timestamp = parseDateValue(text);
+  return Number.isNaN(timestamp) ? text : new Date(timestamp).toISOString().substring(0, 10);
+}
+
+// dd/mm/yyyy for display; unrecognized dates are shown as written
+export function formatDate(value?: string): string | undefined {
+  if (!value) return undefined;
+  const timestamp = parseDateValue(value);
+  return Number.isNaN(timestamp) ? value : new Date(timestamp).toLocaleDateString('es-ES', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
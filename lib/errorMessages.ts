@@ -0,0 +1,26 @@
+import type { ApiErrorCode } from '@/types/bicycle';
+
+// Spanish messages for the API error codes (safe to import from client components)
+
+const ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+  INVALID_FILTER: 'Alguno de los filtros de búsqueda no es válido.',
+  UPSTREAM_TIMEOUT: 'biciregistro.es está tardando demasiado en responder.',
+  UPSTREAM_AUTH_REQUIRED: 'biciregistro.es ha empezado a pedir autenticación para consultar sus listados. Estamos trabajando para solucionarlo.',
+  UPSTREAM_LAYOUT_CHANGED: 'biciregistro.es ha cambiado su web y no podemos leer sus listados. Estamos trabajando para solucionarlo.',
+  UPSTREAM_UNAVAILABLE: 'biciregistro.es no está disponible en este momento.',
+  BROWSER_UNAVAILABLE: 'El servidor no puede abrir el navegador con el que consulta biciregistro.es.',
+  RATE_LIMITED: 'Se han hecho demasiadas consultas a biciregistro.es.',
+  INTERNAL_ERROR: 'Error al cargar las bicicletas.',
+};
+
+function retryHint(seconds: number): string {
+  if (seconds < 90) return ' Vuelve a intentarlo en un minuto.';
+  return ` Vuelve a intentarlo en unos ${Math.round(seconds / 60)} minutos.`;
+}
+
+// Message for an error code, with when to retry if the API said so.
+// Responses without a code get the generic message.
+export function errorMessage(code?: ApiErrorCode, retryAfter?: number): string {
+  const message = ERROR_MESSAGES[code || 'INTERNAL_ERROR'];
+  return retryAfter ? message + retryHint(retryAfter) : message;
+}
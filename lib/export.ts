@@ -0,0 +1,147 @@
+import { PassThrough, Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import type { Bicycle } from '@/types/bicycle';
+import { isoDate } from '@/lib/dates';
+import { APP_URL } from '@/lib/appUrl';
+
+// Export of search results as CSV, JSON Lines or XLSX, streamed row by row
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonl', 'xlsx'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Every Bicycle field, with its Spanish column header
+const COLUMNS: { key: keyof Bicycle; header: string }[] = [
+  { key: 'id', header: 'ID' },
+  { key: 'estado', header: 'Estado' },
+  { key: 'marca', header: 'Marca' },
+  { key: 'modelo', header: 'Modelo' },
+  { key: 'color', header: 'Color' },
+  { key: 'colorInferido', header: 'Color según la foto' },
+  { key: 'numeroSerie', header: 'Nº de serie' },
+  { key: 'numeroMatricula', header: 'Nº de matrícula' },
+  { key: 'fechaRobo', header: 'Fecha de robo' },
+  { key: 'lugarRobo', header: 'Lugar de robo' },
+  { key: 'fechaLocalizacion', header: 'Fecha de localización' },
+  { key: 'lugarLocalizacion', header: 'Lugar de localización' },
+  { key: 'deposito', header: 'Depósito' },
+  { key: 'ciudad', header: 'Ciudad' },
+  { key: 'provincia', header: 'Provincia' },
+  { key: 'descripcion', header: 'Descripción' },
+  { key: 'imagen', header: 'Imagen' },
+  { key: 'imagenCompleta', header: 'Imagen completa' },
+  { key: 'fichaUrl', header: 'Ficha' },
+  { key: 'origen', header: 'Origen' },
+  { key: 'vistoPrimeraVez', header: 'Visto por primera vez' },
+  { key: 'vistoUltimaVez', header: 'Visto por última vez' },
+];
+
+// Fields holding a day that the registry may write as dd/mm/yyyy
+const DATE_FIELDS = ['fechaRobo', 'fechaLocalizacion'] as const;
+const IMAGE_FIELDS: (keyof Bicycle)[] = ['imagen', 'imagenCompleta'];
+
+// Rows written to the CSV/JSONL stream per chunk
+const CHUNK_SIZE = 500;
+
+// Original image URL instead of our proxy, absolute so it works outside the app
+function absoluteImage(value: string): string {
+  const proxied = value.match(/^\/api\/proxy-image\?url=(.+)$/);
+  if (proxied) return decodeURIComponent(proxied[1]);
+  return value.startsWith('/') ? `${APP_URL}${value}` : value;
+}
+
+// Bicycle with ISO dates and absolute image URLs
+export function exportRecord(bicycle: Bicycle): Bicycle {
+  const record: Bicycle = { ...bicycle };
+  for (const field of DATE_FIELDS) {
+    const value = record[field];
+    if (value) record[field] = isoDate(value);
+  }
+  for (const field of IMAGE_FIELDS) {
+    const value = record[field];
+    if (value) (record[field] as string) = absoluteImage(value);
+  }
+  return record;
+}
+
+// Quote a CSV field (RFC 4180). Values starting like a formula are prefixed
+// with ' so spreadsheets do not evaluate them.
+export function csvField(value?: string): string {
+  if (!value) return '';
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function csvRow(values: (string | undefined)[]): string {
+  return `${values.map(csvField).join(',')}\r\n`;
+}
+
+// Emit the lines in chunks so big exports do not build one huge string
+function linesStream(header: string, bicycles: Bicycle[], line: (bicycle: Bicycle) => string): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (header) controller.enqueue(encoder.encode(header));
+    },
+    pull(controller) {
+      const chunk = bicycles.slice(index, index + CHUNK_SIZE).map(line).join('');
+      index += CHUNK_SIZE;
+      if (chunk) controller.enqueue(encoder.encode(chunk));
+      if (index >= bicycles.length) controller.close();
+    },
+  });
+}
+
+function csvStream(bicycles: Bicycle[]): ReadableStream<Uint8Array> {
+  // The BOM makes Excel read the file as UTF-8
+  const header = `\uFEFF${csvRow(COLUMNS.map(column => column.header))}`;
+  return linesStream(header, bicycles, bicycle => {
+    const record = exportRecord(bicycle);
+    return csvRow(COLUMNS.map(column => record[column.key]));
+  });
+}
+
+function jsonlStream(bicycles: Bicycle[]): ReadableStream<Uint8Array> {
+  return linesStream('', bicycles, bicycle => `${JSON.stringify(exportRecord(bicycle))}\n`);
+}
+
+function xlsxStream(bicycles: Bicycle[]): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useSharedStrings: false });
+  const sheet = workbook.addWorksheet('Bicicletas');
+  sheet.columns = COLUMNS.map(column => ({
+    header: column.header,
+    key: column.key,
+    width: column.key === 'descripcion' ? 60 : 20,
+  }));
+
+  const write = async () => {
+    for (const bicycle of bicycles) {
+      sheet.addRow(exportRecord(bicycle)).commit();
+    }
+    sheet.commit();
+    await workbook.commit();
+  };
+  write().catch(error => output.destroy(error as Error));
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
+
+export function exportStream(bicycles: Bicycle[], format: ExportFormat): ReadableStream<Uint8Array> {
+  switch (format) {
+    case 'csv':
+      return csvStream(bicycles);
+    case 'jsonl':
+      return jsonlStream(bicycles);
+    case 'xlsx':
+      return xlsxStream(bicycles);
+  }
+}
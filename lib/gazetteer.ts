@@ -0,0 +1,158 @@
+import type { Bicycle, BicycleLocation } from '@/types/bicycle';
+import { normalizeText } from '@/lib/search';
+import type { GeoPoint } from '@/lib/geo';
+import provincias from '@/data/gazetteer/provincias.json';
+import municipios from '@/data/gazetteer/municipios.json';
+
+// Offline geocoding of the free-text places of a bicycle (depósito, city,
+// province) with the bundled gazetteer in data/gazetteer: the municipal seats
+// and the localities and districts with more than 1000 inhabitants, from
+// GeoNames. Anything else falls back to its province.
+
+export interface Place extends GeoPoint {
+  nombre: string;
+  provincia: string;
+  precision: BicycleLocation['precision'];
+}
+
+interface GazetteerEntry extends GeoPoint {
+  nombre: string;
+  provincia?: string;
+  alias?: string[];
+}
+
+// Longest place name, in words, looked for inside a longer text
+const MAX_NAME_WORDS = 6;
+
+// Lowercase words without accents or punctuation: "L'Hospitalet" -> "l hospitalet"
+function placeKey(value?: string): string {
+  return normalizeText(value).replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function buildIndex(entries: GazetteerEntry[]): Map<string, GazetteerEntry[]> {
+  const index = new Map<string, GazetteerEntry[]>();
+  for (const entry of entries) {
+    for (const name of [entry.nombre, ...(entry.alias || [])]) {
+      const key = placeKey(name);
+      index.set(key, [...(index.get(key) || []), entry]);
+    }
+  }
+  return index;
+}
+
+const municipioIndex = buildIndex(municipios);
+const provinciaIndex = buildIndex(provincias);
+
+// Every known name inside a text, best first: the whole text, then longer
+// names before shorter ones. "Depósito municipal de Getafe" -> Getafe
+function lookup(index: Map<string, GazetteerEntry[]>, text?: string): GazetteerEntry[] {
+  const key = placeKey(text);
+  if (!key) return [];
+
+  const found = new Set(index.get(key));
+  const words = key.split(' ');
+  for (let length = Math.min(MAX_NAME_WORDS, words.length); length > 0; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      for (const entry of index.get(words.slice(start, start + length).join(' ')) || []) {
+        found.add(entry);
+      }
+    }
+  }
+  return [...found];
+}
+
+function provinceOf(text?: string): GazetteerEntry | undefined {
+  return lookup(provinciaIndex, text)[0];
+}
+
+// Geocode a place name. `provincia` picks between municipalities with the same
+// name and is the fallback when the place itself is unknown.
+export function findPlace(text?: string, provincia?: string): Place | null {
+  const province = provinceOf(provincia);
+  const candidates = lookup(municipioIndex, text);
+  // A municipality in another province is a namesake, not this place
+  const municipio = province
+    ? candidates.find(candidate => candidate.provincia === province.nombre)
+    : candidates[0];
+
+  if (municipio) {
+    return {
+      nombre: municipio.nombre,
+      provincia: municipio.provincia || '',
+      lat: municipio.lat,
+      lng: municipio.lng,
+      precision: 'municipio',
+    };
+  }
+
+  const fallback = province || provinceOf(text);
+  if (fallback) {
+    return { nombre: fallback.nombre, provincia: fallback.nombre, lat: fallback.lat, lng: fallback.lng, precision: 'provincia' };
+  }
+  return null;
+}
+
+// Where a bicycle is: the depósito or place it was found in, or where it was
+// stolen for missing bicycles, then its city and province
+export function locateBicycle(bicycle: Bicycle): Place | null {
+  const places = bicycle.estado === 'desaparecida'
+    ? [bicycle.lugarRobo, bicycle.ciudad]
+    : [bicycle.deposito, bicycle.lugarLocalizacion, bicycle.ciudad];
+
+  for (const text of places) {
+    const place = findPlace(text, bicycle.provincia);
+    if (place?.precision === 'municipio') return place;
+  }
+  return findPlace(bicycle.ciudad, bicycle.provincia);
+}
+
+// Name of the place a bicycle is at, as written by the registry
+function locationName(bicycle: Bicycle, place: Place): string {
+  if (bicycle.estado === 'desaparecida') return bicycle.lugarRobo || bicycle.ciudad || place.nombre;
+  return bicycle.deposito || bicycle.lugarLocalizacion || bicycle.ciudad || place.nombre;
+}
+
+// Group bicycles by the depósito or place they are at. Bicycles that cannot
+// be placed are only counted.
+export function groupByLocation(bicycles: Bicycle[]): { locations: BicycleLocation[]; unlocated: number } {
+  const locations = new Map<string, BicycleLocation>();
+  let unlocated = 0;
+
+  for (const bicycle of bicycles) {
+    const place = locateBicycle(bicycle);
+    if (!place) {
+      unlocated++;
+      continue;
+    }
+
+    const nombre = locationName(bicycle, place);
+    const key = `${placeKey(nombre)}|${place.lat},${place.lng}`;
+    const location = locations.get(key) || {
+      key,
+      nombre,
+      municipio: place.precision === 'municipio' ? place.nombre : '',
+      provincia: place.provincia,
+      lat: place.lat,
+      lng: place.lng,
+      precision: place.precision,
+      count: 0,
+      bicycles: [],
+    };
+
+    location.count++;
+    location.bicycles.push({
+      id: bicycle.id,
+      marca: bicycle.marca,
+      modelo: bicycle.modelo,
+      color: bicycle.color,
+      imagen: bicycle.imagen,
+      estado: bicycle.estado,
+    });
+    locations.set(key, location);
+  }
+
+  return {
+    locations: [...locations.values()].sort((a, b) => b.count - a.count),
+    unlocated,
+  };
+}
@@ -0,0 +1,218 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+
+// Content-addressed disk cache of the photos served by /api/proxy-image.
+// Originals are stored once per content hash (urls/ maps an image URL to its
+// hash) and resized / re-encoded variants are keyed by that hash plus their
+// parameters, so the ETag of a response is known before reading any bytes.
+// The least recently used files are evicted when the cache outgrows its cap.
+
+const CACHE_DIR = process.env.IMAGE_CACHE_DIR || path.join(process.cwd(), '.data', 'image-cache');
+const MAX_CACHE_BYTES = (Number(process.env.IMAGE_CACHE_MAX_MB) || 500) * 1024 * 1024;
+// Evict down to this share of the cap so eviction does not run on every write
+const EVICT_TARGET = 0.9;
+
+// Widths a variant is rounded up to, so clients cannot fill the cache with every size
+export const IMAGE_WIDTHS = [64, 128, 256, 320, 480, 640, 960, 1280, 1920];
+export const DEFAULT_QUALITY = 75;
+
+export type ImageFormat = 'avif' | 'webp' | 'jpeg' | 'png';
+
+export interface ImageVariant {
+  width?: number;
+  quality: number;
+  format: ImageFormat;
+}
+
+export interface OriginalImage {
+  hash: string; // sha256 of the bytes
+  contentType: string;
+}
+
+export const FORMAT_CONTENT_TYPES: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+
+let cacheBytes: number | null = null;
+let evicting: Promise<void> | null = null;
+// Cache file -> its write in flight, shared by concurrent requests for it
+const writing = new Map<string, Promise<void>>();
+
+function sha256(value: string | Buffer): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function urlPath(url: string): string {
+  return path.join(CACHE_DIR, 'urls', `${sha256(url)}.json`);
+}
+
+function originalPath(hash: string): string {
+  return path.join(CACHE_DIR, 'originals', hash);
+}
+
+function variantKey(original: OriginalImage, variant: ImageVariant): string {
+  return `${original.hash}-w${variant.width || 0}-q${variant.quality}.${variant.format}`;
+}
+
+function variantPath(original: OriginalImage, variant: ImageVariant): string {
+  return path.join(CACHE_DIR, 'variants', variantKey(original, variant));
+}
+
+// Width rounded up to the next allowed one
+export function variantWidth(requested: number): number {
+  return IMAGE_WIDTHS.find(width => width >= requested) || IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1];
+}
+
+// Strong ETag: the content hash, plus the variant parameters for variants
+export function imageEtag(original: OriginalImage, variant?: ImageVariant): string {
+  return `"${variant ? variantKey(original, variant) : original.hash}"`;
+}
+
+async function readFile(filePath: string): Promise<Buffer | null> {
+  try {
+    const data = await fs.readFile(filePath);
+    // Mark as recently used for the eviction
+    const now = new Date();
+    fs.utimes(filePath, now, now).catch(() => undefined);
+    return data;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Write a cache file. Files are keyed by their content (or by the URL whose
+// content they name), so a write already in flight for the same file is
+// joined instead of repeated.
+function writeFile(filePath: string, data: Buffer | string): Promise<void> {
+  let pending = writing.get(filePath);
+  if (!pending) {
+    pending = doWriteFile(filePath, data).finally(() => {
+      writing.delete(filePath);
+    });
+    writing.set(filePath, pending);
+  }
+  return pending;
+}
+
+async function fileSize(filePath: string): Promise<number> {
+  try {
+    return (await fs.stat(filePath)).size;
+  } catch {
+    return 0;
+  }
+}
+
+async function doWriteFile(filePath: string, data: Buffer | string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmpPath, data);
+  const replaced = await fileSize(filePath);
+  await fs.rename(tmpPath, filePath);
+
+  if (cacheBytes !== null) cacheBytes += Buffer.byteLength(data) - replaced;
+  if ((await cacheSize()) > MAX_CACHE_BYTES) {
+    evicting = evicting || evict().finally(() => {
+      evicting = null;
+    });
+  }
+}
+
+async function cacheFiles(): Promise<{ file: string; size: number; usedAt: number }[]> {
+  const files: { file: string; size: number; usedAt: number }[] = [];
+  for (const dir of ['urls', 'originals', 'variants']) {
+    let names: string[];
+    try {
+      names = await fs.readdir(path.join(CACHE_DIR, dir));
+    } catch {
+      continue;
+    }
+    for (const name of names) {
+      const file = path.join(CACHE_DIR, dir, name);
+      try {
+        const stat = await fs.stat(file);
+        files.push({ file, size: stat.size, usedAt: stat.mtimeMs });
+      } catch {
+        // Removed meanwhile
+      }
+    }
+  }
+  return files;
+}
+
+async function cacheSize(): Promise<number> {
+  if (cacheBytes === null) {
+    cacheBytes = (await cacheFiles()).reduce((sum, file) => sum + file.size, 0);
+  }
+  return cacheBytes;
+}
+
+// Delete the least recently used files until the cache is under its target
+// size. An original whose URL mapping survives is simply downloaded again.
+async function evict(): Promise<void> {
+  const files = (await cacheFiles()).sort((a, b) => a.usedAt - b.usedAt);
+  let total = files.reduce((sum, file) => sum + file.size, 0);
+
+  for (const { file, size } of files) {
+    if (total <= MAX_CACHE_BYTES * EVICT_TARGET) break;
+    await fs.rm(file, { force: true });
+    total -= size;
+  }
+
+  cacheBytes = total;
+  console.log(`Image cache evicted down to ${Math.round(total / 1024 / 1024)} MB`);
+}
+
+// Hash and type of a cached original (null when the URL was never cached)
+export async function lookupOriginal(url: string): Promise<OriginalImage | null> {
+  const data = await readFile(urlPath(url));
+  return data ? (JSON.parse(data.toString('utf8')) as OriginalImage) : null;
+}
+
+// Bytes of a cached original (null when it was evicted)
+export function readOriginal(original: OriginalImage): Promise<Buffer | null> {
+  return readFile(originalPath(original.hash));
+}
+
+export async function storeOriginal(url: string, body: Buffer, contentType: string): Promise<OriginalImage> {
+  const original: OriginalImage = { hash: sha256(body), contentType };
+  await writeFile(originalPath(original.hash), body);
+  await writeFile(urlPath(url), JSON.stringify(original));
+  return original;
+}
+
+// A cached resized / re-encoded variant (null when it was not made yet)
+export function readVariant(original: OriginalImage, variant: ImageVariant): Promise<Buffer | null> {
+  return readFile(variantPath(original, variant));
+}
+
+// Resize / re-encode an original and cache the result
+export async function createVariant(original: OriginalImage, body: Buffer, variant: ImageVariant): Promise<Buffer> {
+  let image = sharp(body, { failOn: 'none' }).rotate();
+  if (variant.width) {
+    image = image.resize({ width: variant.width, withoutEnlargement: true });
+  }
+  switch (variant.format) {
+    case 'avif':
+      // Low effort: encoding speed matters more than the last few bytes
+      image = image.avif({ quality: variant.quality, effort: 2 });
+      break;
+    case 'webp':
+      image = image.webp({ quality: variant.quality });
+      break;
+    case 'png':
+      image = image.png();
+      break;
+    default:
+      image = image.jpeg({ quality: variant.quality, mozjpeg: true });
+  }
+
+  const data = await image.toBuffer();
+  await writeFile(variantPath(original, variant), data);
+  return data;
+}
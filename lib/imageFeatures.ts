@@ -0,0 +1,139 @@
+import sharp from 'sharp';
+
+// Visual fingerprint of a photo, computed on the CPU with sharp: a 64-bit
+// perceptual hash (DCT of a 32x32 greyscale thumbnail) for the shape and a
+// coarse RGB histogram for the colours.
+
+export interface ImageFeatures {
+  hash: string; // 16 hex digits
+  histogram: number[]; // HISTOGRAM_LEVELS^3 bins, summing to 1
+}
+
+const DCT_SIZE = 32;
+const HASH_SIZE = 8;
+const HISTOGRAM_SIZE = 64;
+// Levels per RGB channel
+const HISTOGRAM_LEVELS = 4;
+
+// Weight of the hash in the combined similarity; the rest is the histogram
+const HASH_WEIGHT = 0.6;
+
+// cos((2x + 1) * u * PI / 2N), computed once
+const DCT_COSINES = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Array.from({ length: DCT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)))
+);
+
+// Low-frequency 8x8 corner of the 2D DCT of a DCT_SIZE x DCT_SIZE image
+function lowFrequencies(pixels: Uint8Array): number[] {
+  const rows: number[][] = [];
+  for (let y = 0; y < DCT_SIZE; y++) {
+    const row: number[] = [];
+    for (let u = 0; u < HASH_SIZE; u++) {
+      let sum = 0;
+      for (let x = 0; x < DCT_SIZE; x++) sum += pixels[y * DCT_SIZE + x] * DCT_COSINES[u][x];
+      row.push(sum);
+    }
+    rows.push(row);
+  }
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) sum += rows[y][u] * DCT_COSINES[v][y];
+      coefficients.push(sum);
+    }
+  }
+  return coefficients;
+}
+
+function perceptualHash(pixels: Uint8Array): string {
+  const coefficients = lowFrequencies(pixels);
+  // The DC term is the average brightness, leave it out of the median
+  const median = [...coefficients.slice(1)].sort((a, b) => a - b)[Math.floor((coefficients.length - 1) / 2)];
+
+  let hex = '';
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    }
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+function colorHistogram(pixels: Uint8Array): number[] {
+  const bins = new Array<number>(HISTOGRAM_LEVELS ** 3).fill(0);
+  const step = 256 / HISTOGRAM_LEVELS;
+
+  for (let i = 0; i < pixels.length; i += 3) {
+    const r = Math.floor(pixels[i] / step);
+    const g = Math.floor(pixels[i + 1] / step);
+    const b = Math.floor(pixels[i + 2] / step);
+    bins[(r * HISTOGRAM_LEVELS + g) * HISTOGRAM_LEVELS + b]++;
+  }
+
+  const total = pixels.length / 3;
+  return bins.map(count => Math.round((count / total) * 10000) / 10000);
+}
+
+async function greyscale(image: sharp.Sharp): Promise<Uint8Array> {
+  const { data } = await image
+    .clone()
+    .resize(DCT_SIZE, DCT_SIZE, { fit: 'fill' })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return new Uint8Array(data);
+}
+
+export async function computeImageFeatures(buffer: Buffer): Promise<ImageFeatures> {
+  // rotate() applies the EXIF orientation of phone photos
+  const image = sharp(buffer, { failOn: 'none' }).rotate();
+
+  const { data: rgb } = await image
+    .clone()
+    .resize(HISTOGRAM_SIZE, HISTOGRAM_SIZE, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    hash: perceptualHash(await greyscale(image)),
+    histogram: colorHistogram(new Uint8Array(rgb)),
+  };
+}
+
+// Hash of the mirrored photo: a bike photographed facing the other way
+export async function mirroredHash(buffer: Buffer): Promise<string> {
+  return perceptualHash(await greyscale(sharp(buffer, { failOn: 'none' }).rotate().flop()));
+}
+
+function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = Number.parseInt(a[i], 16) ^ Number.parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+function histogramIntersection(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.min(a[i], b[i] ?? 0);
+  return sum;
+}
+
+// 0..1, how alike two photos look. `hashes` are the hashes of the query photo
+// (as taken and mirrored); the closest one counts.
+export function visualSimilarity(query: ImageFeatures, hashes: string[], candidate: ImageFeatures): number {
+  const bits = HASH_SIZE * HASH_SIZE;
+  const distance = Math.min(...hashes.map(hash => hammingDistance(hash, candidate.hash)));
+  const shape = 1 - distance / bits;
+  const colors = histogramIntersection(query.histogram, candidate.histogram);
+  return HASH_WEIGHT * shape + (1 - HASH_WEIGHT) * colors;
+}
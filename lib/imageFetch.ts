@@ -0,0 +1,143 @@
+import { parseRetryAfter } from '@/lib/apiErrors';
+import { isPublicHost, resolveHost } from '@/lib/publicAddress';
+import { robotsAllow, upstreamFetch } from '@/lib/upstream';
+
+// Download of bicycle photos from the registry for the image proxy and the
+// colour inference. The URLs come from the query string of /api/proxy-image,
+// so they are untrusted: only exact hosts over https on the default port,
+// every redirect hop is re-checked, hosts resolving to private addresses are
+// refused, and the body must be a reasonably sized raster image. Requests go
+// through the polite upstream client, so photos that robots.txt disallows are
+// refused too.
+
+export const IMAGE_HOSTS = ['biciregistro.es', 'www.biciregistro.es'];
+// Raster formats only: an SVG may carry scripts, and the proxy serves the
+// original bytes from our own origin
+export const IMAGE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'];
+
+const MAX_IMAGE_BYTES = (Number(process.env.IMAGE_PROXY_MAX_MB) || 10) * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const IMAGE_TIMEOUT_MS = 15000;
+
+export interface ImageFetchOptions {
+  hosts?: string[];
+  requireHttps?: boolean;
+  ports?: string[]; // Allowed ports, '' being the scheme's default
+  maxBytes?: number;
+  maxRedirects?: number;
+  timeoutMs?: number; // Per request, counted once the upstream client lets it through
+  headers?: Record<string, string>;
+  // Addresses of a hostname; injectable so tests can point at a local stub
+  resolve?: (hostname: string) => Promise<string[]>;
+}
+
+export type ImageFetchResult =
+  | { ok: true; body: Buffer; contentType: string }
+  | { ok: false; status: number; error: string; retryAfter?: number };
+
+// Whether a URL may be fetched at all: exact allowed host, https, default port
+export function isAllowedImageUrl(
+  url: string,
+  { hosts = IMAGE_HOSTS, requireHttps = true, ports = [''] }: ImageFetchOptions = {}
+): boolean {
+  try {
+    const parsed = new URL(url);
+    const protocolOk = parsed.protocol === 'https:' || (!requireHttps && parsed.protocol === 'http:');
+    return (
+      protocolOk &&
+      !parsed.username &&
+      !parsed.password &&
+      ports.includes(parsed.port) &&
+      hosts.includes(parsed.hostname.toLowerCase())
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Read a body, giving up as soon as it exceeds `maxBytes`
+async function readCapped(response: Response, maxBytes: number): Promise<Buffer | null> {
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Fetch an image, following at most `maxRedirects` redirects by hand so each
+// hop goes through the same checks. The checks on the resolved addresses do
+// not pin the connection to them; the host allow-list is the main defence.
+export async function fetchImage(url: string, options: ImageFetchOptions = {}): Promise<ImageFetchResult> {
+  const {
+    maxBytes = MAX_IMAGE_BYTES,
+    maxRedirects = MAX_REDIRECTS,
+    timeoutMs = IMAGE_TIMEOUT_MS,
+    headers = {},
+    resolve = resolveHost,
+  } = options;
+
+  let current = url;
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    if (!isAllowedImageUrl(current, options)) {
+      return { ok: false, status: 400, error: 'Invalid image source' };
+    }
+    if (!(await isPublicHost(new URL(current).hostname, resolve))) {
+      return { ok: false, status: 400, error: 'Invalid image source' };
+    }
+
+    if (!(await robotsAllow(current))) {
+      return { ok: false, status: 403, error: 'Disallowed by robots.txt' };
+    }
+
+    const response = await upstreamFetch(current, { headers, redirect: 'manual', timeoutMs, retries: 0 });
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get('location');
+      await response.body?.cancel();
+      if (!location) {
+        return { ok: false, status: 502, error: 'Redirect without location' };
+      }
+      current = new URL(location, current).toString();
+      continue;
+    }
+
+    if (response.status === 429) {
+      await response.body?.cancel();
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      return { ok: false, status: 429, error: 'Too many requests to biciregistro.es', ...(retryAfter !== undefined && { retryAfter }) };
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { ok: false, status: response.status, error: `Failed to fetch image: ${response.statusText}` };
+    }
+
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    if (!IMAGE_CONTENT_TYPES.includes(contentType)) {
+      await response.body?.cancel();
+      return { ok: false, status: 502, error: 'Upstream response is not an image' };
+    }
+
+    const declaredLength = Number(response.headers.get('content-length'));
+    const body = declaredLength > maxBytes ? null : await readCapped(response, maxBytes);
+    if (!body) {
+      if (declaredLength > maxBytes) await response.body?.cancel();
+      return { ok: false, status: 502, error: 'Image too large' };
+    }
+
+    return { ok: true, body, contentType };
+  }
+
+  return { ok: false, status: 502, error: 'Too many redirects' };
+}
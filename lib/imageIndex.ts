@@ -0,0 +1,106 @@
+import type { Bicycle, BicycleVisualMatch, SearchFilters } from '@/types/bicycle';
+import { dataFilePath, readJsonFile, writeJsonFile } from '@/lib/jsonFile';
+import { computeImageFeatures, mirroredHash, visualSimilarity, type ImageFeatures } from '@/lib/imageFeatures';
+import { getStoredBicycles } from '@/lib/bicycleStore';
+import { filterBicycles } from '@/lib/search';
+import { sourceImageUrl } from '@/lib/proxyImage';
+
+// Visual features of every bicycle photo served by /api/proxy-image, keyed by
+// the original image URL, and search of the bicycles that look like a photo
+
+const INDEX_PATH = dataFilePath(process.env.IMAGE_INDEX_PATH, 'image-features.json');
+
+// Batch the writes of a page full of thumbnails into one
+const SAVE_DELAY_MS = 2000;
+
+interface IndexedImage extends ImageFeatures {
+  indexedAt: string; // ISO
+}
+
+let images: Record<string, IndexedImage> | null = null;
+let loading: Promise<Record<string, IndexedImage>> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+// Images being indexed right now, so parallel requests compute them once
+const pending = new Set<string>();
+
+async function loadIndex(): Promise<Record<string, IndexedImage>> {
+  if (images) return images;
+  loading = loading || readJsonFile<Record<string, IndexedImage>>(INDEX_PATH).then(file => {
+    images = file?.data || {};
+    return images;
+  });
+  return loading;
+}
+
+function scheduleSave(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    writeJsonFile(INDEX_PATH, images).catch(error => {
+      console.error('Error saving image index:', error);
+    });
+  }, SAVE_DELAY_MS);
+}
+
+// Record the features of a photo the proxy just fetched. Failures are only
+// logged: the image itself was served fine.
+export async function indexImage(url: string, buffer: Buffer): Promise<void> {
+  const index = await loadIndex();
+  if (index[url] || pending.has(url)) return;
+
+  pending.add(url);
+  try {
+    const features = await computeImageFeatures(buffer);
+    index[url] = { ...features, indexedAt: new Date().toISOString() };
+    scheduleSave();
+  } catch (error) {
+    console.error(`Error indexing image ${url}:`, error);
+  } finally {
+    pending.delete(url);
+  }
+}
+
+export async function getIndexedImageCount(): Promise<number> {
+  return Object.keys(await loadIndex()).length;
+}
+
+// Bicycles whose photo looks most like `photo`, best first. Only bicycles
+// matching the filters (tipo, text fields) and with an indexed photo count.
+export async function findSimilarBicycles(
+  photo: Buffer,
+  filters: SearchFilters,
+  limit: number
+): Promise<BicycleVisualMatch[]> {
+  const [query, mirrored, index] = await Promise.all([
+    computeImageFeatures(photo),
+    mirroredHash(photo),
+    loadIndex(),
+  ]);
+  const hashes = [query.hash, mirrored];
+
+  const matches: BicycleVisualMatch[] = [];
+  for (const bicycle of filterBicycles(await getStoredBicycles(), filters)) {
+    const score = bestScore(bicycle, query, hashes, index);
+    if (score !== null) matches.push({ bicycle, score: Math.round(score * 1000) / 1000 });
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+function bestScore(
+  bicycle: Bicycle,
+  query: ImageFeatures,
+  hashes: string[],
+  index: Record<string, IndexedImage>
+): number | null {
+  let best: number | null = null;
+  for (const imagen of new Set([bicycle.imagen, bicycle.imagenCompleta])) {
+    const url = sourceImageUrl(imagen);
+    const features = url ? index[url] : undefined;
+    if (!features) continue;
+
+    const score = visualSimilarity(query, hashes, features);
+    if (best === null || score > best) best = score;
+  }
+  return best;
+}
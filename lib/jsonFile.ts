@@ -0,0 +1,50 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Small helpers for the JSON documents kept under .data/
+
+// Default location of a data file, unless overridden by an environment variable
+export function dataFilePath(envValue: string | undefined, fileName: string): string {
+  return envValue || path.join(process.cwd(), '.data', fileName);
+}
+
+// Read a JSON file. Returns null when the file does not exist yet.
+export async function readJsonFile<T>(filePath: string): Promise<{ data: T; mtimeMs: number } | null> {
+  try {
+    const stat = await fs.stat(filePath);
+    const data = JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+    return { data, mtimeMs: stat.mtimeMs };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Get the modification time of a file (null when it does not exist)
+export async function fileMtime(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.stat(filePath)).mtimeMs;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Write a JSON file atomically: write a temporary file and rename it so
+// readers never see a partial file. Each write has its own temporary file,
+// so concurrent writers cannot clobber each other's before the rename.
+// Returns the new modification time.
+export async function writeJsonFile(filePath: string, data: unknown): Promise<number> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  const tmpPath = `${filePath}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data));
+  await fs.rename(tmpPath, filePath);
+
+  return (await fs.stat(filePath)).mtimeMs;
+}
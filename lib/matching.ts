@@ -0,0 +1,183 @@
+import type { Bicycle, BicycleMatch } from '@/types/bicycle';
+import { parseDateValue } from '@/lib/dates';
+import { normalizeIdentifier, normalizeText, similarity } from '@/lib/search';
+
+// Matching engine: scores how likely a found bicycle is a reported stolen one
+
+const MIN_MATCH_SCORE = 0.4;
+const DEFAULT_MATCH_LIMIT = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Relative weight of each signal. Signals missing on either side are ignored.
+const WEIGHTS = {
+  numeroSerie: 0.3,
+  numeroMatricula: 0.2,
+  marca: 0.15,
+  modelo: 0.1,
+  color: 0.1,
+  fecha: 0.08,
+  lugar: 0.07,
+};
+
+// Color names that describe the same frame color
+const COLOR_SYNONYMS: Record<string, string> = {
+  negra: 'negro',
+  blanca: 'blanco',
+  roja: 'rojo',
+  amarilla: 'amarillo',
+  morada: 'morado',
+  violeta: 'morado',
+  lila: 'morado',
+  plata: 'gris',
+  plateado: 'gris',
+  plateada: 'gris',
+  celeste: 'azul',
+  marino: 'azul',
+  granate: 'rojo',
+  burdeos: 'rojo',
+  fucsia: 'rosa',
+  dorado: 'amarillo',
+  dorada: 'amarillo',
+  caqui: 'verde',
+};
+
+// Placeholder values the scrapers use when a field is missing
+function knownValue(value?: string): string {
+  const normalized = normalizeText(value);
+  return normalized === 'desconocida' || normalized === 'desconocido' ? '' : normalized;
+}
+
+function colorTokens(color?: string): Set<string> {
+  return new Set(
+    normalizeText(color)
+      .split(/[\s,\/\-+]+|\by\b/)
+      .filter(token => token.length > 2)
+      .map(token => COLOR_SYNONYMS[token] || token)
+  );
+}
+
+function colorSimilarity(a?: string, b?: string): number {
+  const aTokens = colorTokens(a);
+  const bTokens = colorTokens(b);
+  if (aTokens.size === 0 || bTokens.size === 0) return Number.NaN;
+
+  const shared = [...aTokens].filter(token => bTokens.has(token)).length;
+  return shared / new Set([...aTokens, ...bTokens]).size;
+}
+
+// 1 when found shortly after the theft, decaying to 0 after a year
+function dateProximity(fechaRobo?: string, fechaLocalizacion?: string): number {
+  const stolenAt = parseDateValue(fechaRobo);
+  const foundAt = parseDateValue(fechaLocalizacion);
+  if (Number.isNaN(stolenAt) || Number.isNaN(foundAt)) return Number.NaN;
+  if (foundAt < stolenAt) return 0;
+
+  const days = (foundAt - stolenAt) / DAY_MS;
+  if (days <= 30) return 1;
+  return Math.max(0, 1 - (days - 30) / 335);
+}
+
+function placeProximity(found: Bicycle, stolen: Bicycle): number {
+  const foundCity = normalizeText(found.ciudad || found.lugarLocalizacion);
+  const stolenCity = normalizeText(stolen.ciudad || stolen.lugarRobo);
+  const foundProvince = normalizeText(found.provincia);
+  const stolenProvince = normalizeText(stolen.provincia);
+
+  if (!foundCity && !foundProvince) return Number.NaN;
+  if (!stolenCity && !stolenProvince) return Number.NaN;
+
+  if (foundCity && stolenCity && similarity(foundCity, stolenCity) >= 0.85) return 1;
+  if (foundProvince && stolenProvince && foundProvince === stolenProvince) return 0.6;
+  // Depósitos are often named after the city of the province
+  if (foundCity && stolenProvince && similarity(foundCity, stolenProvince) >= 0.85) return 0.5;
+  return 0;
+}
+
+// Score a found bicycle against a stolen one
+export function scoreMatch(found: Bicycle, stolen: Bicycle): { score: number; reasons: string[] } {
+  const signals: { weight: number; value: number }[] = [];
+  const reasons: string[] = [];
+
+  const foundSerial = normalizeIdentifier(found.numeroSerie);
+  const stolenSerial = normalizeIdentifier(stolen.numeroSerie);
+  const serialScore = foundSerial && stolenSerial ? similarity(foundSerial, stolenSerial) : Number.NaN;
+
+  const foundPlate = normalizeIdentifier(found.numeroMatricula);
+  const stolenPlate = normalizeIdentifier(stolen.numeroMatricula);
+  const plateScore = foundPlate && stolenPlate ? similarity(foundPlate, stolenPlate) : Number.NaN;
+
+  const foundMarca = knownValue(found.marca);
+  const stolenMarca = knownValue(stolen.marca);
+  const marcaScore = foundMarca && stolenMarca ? similarity(foundMarca, stolenMarca) : Number.NaN;
+
+  const foundModelo = knownValue(found.modelo);
+  const stolenModelo = knownValue(stolen.modelo);
+  const modeloScore = foundModelo && stolenModelo ? similarity(foundModelo, stolenModelo) : Number.NaN;
+  const colorScore = colorSimilarity(found.color, stolen.color);
+  const fechaScore = dateProximity(stolen.fechaRobo, found.fechaLocalizacion);
+  const lugarScore = placeProximity(found, stolen);
+
+  const add = (weight: number, value: number) => {
+    if (!Number.isNaN(value)) signals.push({ weight, value });
+  };
+  add(WEIGHTS.numeroSerie, serialScore);
+  add(WEIGHTS.numeroMatricula, plateScore);
+  add(WEIGHTS.marca, marcaScore);
+  add(WEIGHTS.modelo, modeloScore);
+  add(WEIGHTS.color, colorScore);
+  add(WEIGHTS.fecha, fechaScore);
+  add(WEIGHTS.lugar, lugarScore);
+
+  const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0);
+  if (totalWeight === 0) return { score: 0, reasons };
+
+  let score = signals.reduce((sum, signal) => sum + signal.weight * signal.value, 0) / totalWeight;
+
+  if (serialScore === 1) reasons.push('Nº de serie idéntico');
+  else if (serialScore >= 0.8) reasons.push('Nº de serie muy parecido');
+  if (plateScore === 1) reasons.push('Matrícula idéntica');
+  else if (plateScore >= 0.8) reasons.push('Matrícula muy parecida');
+  if (marcaScore >= 0.8) reasons.push('Misma marca');
+  if (modeloScore >= 0.8) reasons.push('Mismo modelo');
+  if (colorScore >= 0.5) reasons.push('Color similar');
+  if (fechaScore > 0) reasons.push('Localizada después del robo');
+  if (lugarScore >= 0.6) reasons.push('Lugar cercano');
+
+  // An identical identifier is almost conclusive on its own
+  if (serialScore === 1 || plateScore === 1) {
+    score = Math.max(score, 0.95);
+  } else if (serialScore < 0.5 || plateScore < 0.5) {
+    // Both sides have an identifier and they clearly differ
+    score *= 0.5;
+  }
+
+  // A bicycle cannot be found before it was stolen
+  if (fechaScore === 0 && parseDateValue(found.fechaLocalizacion) < parseDateValue(stolen.fechaRobo)) {
+    score *= 0.2;
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+// Rank candidate bicycles for one bicycle. Found bicycles are compared with
+// stolen ones and vice versa, whichever side `bicycle` is on.
+export function findMatches(
+  bicycle: Bicycle,
+  candidates: Bicycle[],
+  limit = DEFAULT_MATCH_LIMIT
+): BicycleMatch[] {
+  const isFound = bicycle.estado !== 'desaparecida';
+
+  return candidates
+    .filter(candidate => candidate.id !== bicycle.id)
+    .filter(candidate => (candidate.estado === 'desaparecida') === isFound)
+    .map(candidate => {
+      const { score, reasons } = isFound
+        ? scoreMatch(bicycle, candidate)
+        : scoreMatch(candidate, bicycle);
+      return { bicycle: candidate, score, reasons };
+    })
+    .filter(match => match.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,104 @@
+import { createHash } from 'crypto';
+import type { Bicycle } from '@/types/bicycle';
+import { dataFilePath, readJsonFile, writeJsonFile } from '@/lib/jsonFile';
+import { isoDate } from '@/lib/dates';
+
+// Stolen bicycles reported by our own members, imported as JSON
+
+const REPORTS_PATH = dataFilePath(process.env.MEMBER_REPORTS_PATH, 'member-reports.json');
+
+const TEXT_FIELDS = [
+  'marca', 'modelo', 'color', 'numeroSerie', 'numeroMatricula', 'fechaRobo',
+  'lugarRobo', 'ciudad', 'provincia', 'descripcion', 'imagen',
+] as const;
+
+// Serialize read-modify-write cycles on the reports file
+let queue: Promise<unknown> = Promise.resolve();
+
+function withLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task, task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+export async function getMemberReports(): Promise<Bicycle[]> {
+  const file = await readJsonFile<Bicycle[]>(REPORTS_PATH);
+  return file?.data || [];
+}
+
+// What a public request may see of a member's report: enough to recognise
+// the bicycle, not the member. Identifiers, the exact place, the free text
+// and the photo stay private, and the id is replaced by an opaque one.
+export function redactMemberReport(report: Bicycle): Bicycle {
+  const { marca, modelo, color, fechaRobo, ciudad, provincia, estado, origen } = report;
+  return {
+    id: `socio-${createHash('sha1').update(report.id).digest('hex').substring(0, 16)}`,
+    marca,
+    modelo,
+    color,
+    fechaRobo,
+    ciudad,
+    provincia,
+    estado,
+    origen,
+  };
+}
+
+// Turn one imported JSON item into a stolen bicycle record (null if unusable)
+function toMemberReport(item: unknown): Bicycle | null {
+  if (!item || typeof item !== 'object') return null;
+  const raw = item as Record<string, unknown>;
+
+  const fields: Partial<Record<(typeof TEXT_FIELDS)[number], string>> = {};
+  for (const field of TEXT_FIELDS) {
+    const value = raw[field];
+    if (typeof value === 'string' && value.trim()) {
+      fields[field] = value.trim();
+    } else if (typeof value === 'number') {
+      fields[field] = String(value);
+    }
+  }
+
+  // Without a brand or an identifier there is nothing to match on
+  if (!fields.marca && !fields.numeroSerie && !fields.numeroMatricula) return null;
+
+  const sourceId = typeof raw.id === 'string' || typeof raw.id === 'number'
+    ? String(raw.id)
+    : createHash('sha1').update(JSON.stringify(fields)).digest('hex').substring(0, 16);
+
+  return {
+    ...fields,
+    fechaRobo: isoDate(fields.fechaRobo),
+    id: `socio-${sourceId}`,
+    marca: fields.marca || '',
+    modelo: fields.modelo || '',
+    color: fields.color || '',
+    estado: 'desaparecida',
+    origen: 'socio',
+  };
+}
+
+// Import member reports. With replace=false, reports are merged by id.
+export function importMemberReports(
+  items: unknown[],
+  replace: boolean
+): Promise<{ imported: number; skipped: number; total: number }> {
+  const reports = items.map(toMemberReport);
+  const valid = reports.filter((report): report is Bicycle => report !== null);
+
+  return withLock(async () => {
+    const byId = new Map<string, Bicycle>();
+    if (!replace) {
+      for (const report of await getMemberReports()) {
+        byId.set(report.id, report);
+      }
+    }
+    for (const report of valid) {
+      byId.set(report.id, report);
+    }
+
+    await writeJsonFile(REPORTS_PATH, Array.from(byId.values()));
+
+    return { imported: valid.length, skipped: items.length - valid.length, total: byId.size };
+  });
+}
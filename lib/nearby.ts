@@ -0,0 +1,71 @@
+import type { Bicycle, NearbyBicycle, NearOrigin, SearchFilters } from '@/types/bicycle';
+import { DEFAULT_RADIUS_KM, distanceKm } from '@/lib/geo';
+import { findPlace, locateBicycle } from '@/lib/gazetteer';
+
+// Search by distance: `near=lat,lng` or `nearCity=Getafe` with a `radiusKm`.
+// Bicycles are placed with the gazetteer, so one stolen in Getafe and found
+// at the Madrid depósito matches a search around either of them.
+
+const MAX_RADIUS_KM = 1000;
+
+export interface NearResolution {
+  near: NearOrigin | null; // null when the search is not by distance
+  error?: string;
+}
+
+function parseRadius(value?: string): number | null {
+  if (!value) return DEFAULT_RADIUS_KM;
+  const radius = Number.parseFloat(value);
+  return Number.isFinite(radius) && radius > 0 ? Math.min(radius, MAX_RADIUS_KM) : null;
+}
+
+function parsePoint(value: string): { lat: number; lng: number } | null {
+  const match = value.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+  if (!match) return null;
+
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : null;
+}
+
+// Center and radius of a search; `near` wins over `nearCity`
+export function resolveNear(filters: SearchFilters): NearResolution {
+  if (!filters.near && !filters.nearCity) return { near: null };
+
+  const radiusKm = parseRadius(filters.radiusKm);
+  if (radiusKm === null) return { near: null, error: 'Invalid radiusKm' };
+
+  if (filters.near) {
+    const point = parsePoint(filters.near);
+    if (!point) return { near: null, error: 'Invalid near, expected lat,lng' };
+    return { near: { ...point, radiusKm } };
+  }
+
+  const place = findPlace(filters.nearCity);
+  if (!place) return { near: null, error: `Unknown place: ${filters.nearCity}` };
+  return { near: { lat: place.lat, lng: place.lng, nombre: place.nombre, radiusKm } };
+}
+
+// Bicycles within the radius, with their distance (km, one decimal) set.
+// Bicycles that cannot be placed are left out.
+export function filterByDistance(bicycles: Bicycle[], near: NearOrigin): NearbyBicycle[] {
+  const nearby: NearbyBicycle[] = [];
+  for (const bicycle of bicycles) {
+    const place = locateBicycle(bicycle);
+    if (!place) continue;
+
+    const distance = distanceKm(near, place);
+    if (distance <= near.radiusKm) {
+      nearby.push({ ...bicycle, distanciaKm: Math.round(distance * 10) / 10 });
+    }
+  }
+  return nearby;
+}
+
+// Apply the distance part of a search, if any. A place that cannot be
+// resolved matches nothing.
+export function filterNearby(bicycles: Bicycle[], filters: SearchFilters): Bicycle[] {
+  const { near, error } = resolveNear(filters);
+  if (error) return [];
+  return near ? filterByDistance(bicycles, near) : bicycles;
+}
@@ -0,0 +1,171 @@
+import nodemailer from 'nodemailer';
+import type { Bicycle, NotificationChannel, SavedSearch } from '@/types/bicycle';
+import { APP_URL } from '@/lib/appUrl';
+import { isPublicHost } from '@/lib/publicAddress';
+
+// Pluggable notifiers for saved search alerts
+
+export interface SearchAlert {
+  search: SavedSearch;
+  bicycles: Bicycle[]; // Bicycles that matched for the first time
+}
+
+export interface Notifier {
+  send(alert: SearchAlert): Promise<void>;
+}
+
+export interface NotifierOptions {
+  // Addresses of a hostname; injectable so tests can point at a local stub
+  resolve?: (hostname: string) => Promise<string[]>;
+  requireHttps?: boolean; // Webhooks must use https (default true)
+}
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Unsubscribe link sent with the alerts of a saved search. Opening it asks
+// for confirmation; a POST to it deletes the search.
+export function unsubscribeUrl(search: SavedSearch): string | undefined {
+  if (!search.unsubscribeToken) return undefined;
+  return `${APP_URL}/api/saved-searches/${encodeURIComponent(search.id)}/unsubscribe?token=${search.unsubscribeToken}`;
+}
+
+// Link that turns on the alerts of an email channel
+export function confirmationUrl(search: SavedSearch, token: string): string {
+  return `${APP_URL}/api/saved-searches/${encodeURIComponent(search.id)}/confirm?token=${token}`;
+}
+
+function describeBicycle(bicycle: Bicycle): string {
+  const details = [bicycle.color, bicycle.numeroSerie && `Nº serie ${bicycle.numeroSerie}`, bicycle.ciudad]
+    .filter(Boolean)
+    .join(', ');
+  return `${bicycle.marca} ${bicycle.modelo}${details ? ` (${details})` : ''}`;
+}
+
+// Any SMTP server, configured with SMTP_HOST, SMTP_PORT, SMTP_SECURE,
+// SMTP_USER, SMTP_PASS and SMTP_FROM
+function smtpTransport() {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error('SMTP_HOST is not configured');
+  }
+
+  return nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+}
+
+function smtpFrom(): string {
+  return process.env.SMTP_FROM || 'BiciRegistro <alertas@biciregistro.local>';
+}
+
+// Ask an address to confirm it wants the alerts of a saved search (double
+// opt-in), so nobody can sign up someone else
+export async function sendConfirmationEmail(search: SavedSearch, to: string, token: string): Promise<void> {
+  await smtpTransport().sendMail({
+    from: smtpFrom(),
+    to,
+    subject: `Confirma los avisos de "${search.nombre}"`,
+    text: [
+      `Alguien ha pedido avisos por correo a esta dirección para la búsqueda "${search.nombre}".`,
+      '',
+      `Para empezar a recibirlos, abre este enlace: ${confirmationUrl(search, token)}`,
+      '',
+      'Si no has sido tú, ignora este mensaje: no recibirás ningún aviso.',
+    ].join('\n'),
+  });
+}
+
+function emailNotifier(to: string): Notifier {
+  async function send({ search, bicycles }: SearchAlert): Promise<void> {
+    const transport = smtpTransport();
+
+    const lines = bicycles.map(bicycle => `- ${describeBicycle(bicycle)}: ${APP_URL}/bicicleta/${encodeURIComponent(bicycle.id)}`);
+    const unsubscribe = unsubscribeUrl(search);
+
+    await transport.sendMail({
+      from: smtpFrom(),
+      to,
+      subject: `${bicycles.length} nueva(s) bicicleta(s) para "${search.nombre}"`,
+      // One-click unsubscribe from the mail client (RFC 8058)
+      ...(unsubscribe && {
+        headers: {
+          'List-Unsubscribe': `<${unsubscribe}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+      }),
+      text: [
+        `Han aparecido bicicletas nuevas para tu búsqueda guardada "${search.nombre}":`,
+        '',
+        ...lines,
+        '',
+        `Consulta los resultados en ${APP_URL}`,
+        ...(unsubscribe ? ['', `Para dejar de recibir estos avisos: ${unsubscribe}`] : []),
+      ].join('\n'),
+    });
+  }
+
+  return { send };
+}
+
+// Whether the server may POST to a webhook URL: https, no credentials in
+// the URL and a host that only resolves to public addresses. Checked when the
+// search is saved and again before every send, since DNS may change.
+export async function isAllowedWebhookUrl(
+  url: string,
+  { resolve, requireHttps = true }: NotifierOptions = {}
+): Promise<boolean> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  const protocols = requireHttps ? ['https:'] : ['http:', 'https:'];
+  if (!protocols.includes(parsed.protocol) || parsed.username || parsed.password) return false;
+  return isPublicHost(parsed.hostname.replace(/^\[|\]$/g, ''), resolve);
+}
+
+// Generic webhook: POSTs the alert as JSON. Redirects are not followed, so
+// the checked host is the one that receives the alert.
+function webhookNotifier(url: string, options: NotifierOptions): Notifier {
+  async function send({ search, bicycles }: SearchAlert): Promise<void> {
+    if (!(await isAllowedWebhookUrl(url, options))) {
+      throw new Error('Webhook URL is not allowed');
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      redirect: 'manual',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        event: 'saved-search.new-matches',
+        search: { id: search.id, nombre: search.nombre, filters: search.filters },
+        count: bicycles.length,
+        bicycles,
+        unsubscribeUrl: unsubscribeUrl(search),
+      }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    await response.body?.cancel();
+    if (!response.ok) {
+      throw new Error(`Webhook returned HTTP ${response.status}`);
+    }
+  }
+
+  return { send };
+}
+
+export function createNotifier(channel: NotificationChannel, options: NotifierOptions = {}): Notifier {
+  switch (channel.type) {
+    case 'email':
+      return emailNotifier(channel.to);
+    case 'webhook':
+      return webhookNotifier(channel.url, options);
+  }
+}
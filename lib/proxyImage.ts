@@ -0,0 +1,32 @@
+// URLs of photos served by /api/proxy-image (safe to import from client components)
+
+const PROXY_PATH = '/api/proxy-image';
+const SITE_URL = 'https://www.biciregistro.es';
+
+// Width of the thumbnails in the result cards (2x their rendered size)
+export const THUMBNAIL_WIDTH = 480;
+
+export function isProxiedImage(url: string): boolean {
+  return url.startsWith(PROXY_PATH);
+}
+
+// Proxy URL of a photo on biciregistro.es; `src` may be relative to the site.
+// Every source stores its photos this way, so they are cached and resized.
+export function proxiedImageUrl(src: string): string {
+  const absolute = new URL(src, SITE_URL).toString();
+  return `${PROXY_PATH}?url=${encodeURIComponent(absolute)}`;
+}
+
+// Original URL of a bicycle photo, unwrapping our proxy (null for placeholders)
+export function sourceImageUrl(imagen?: string): string | null {
+  if (!imagen) return null;
+  const proxied = imagen.match(/^\/api\/proxy-image\?url=(.+)$/);
+  if (proxied) return decodeURIComponent(proxied[1]);
+  return /^https?:\/\//.test(imagen) ? imagen : null;
+}
+
+// The proxied photo resized to `width` pixels wide. Other URLs (placeholders,
+// photos served elsewhere) are returned as they are.
+export function thumbnailUrl(url: string, width: number = THUMBNAIL_WIDTH): string {
+  return isProxiedImage(url) ? `${url}&w=${width}` : url;
+}
@@ -0,0 +1,60 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+// Checks that keep server-side requests to user-supplied URLs (image proxy,
+// webhooks) away from the server's own network. They look at the resolved
+// addresses but do not pin the connection to them, so they complement, not
+// replace, a host allow-list where one is possible.
+
+// Addresses a hostname resolves to
+export async function resolveHost(hostname: string): Promise<string[]> {
+  if (isIP(hostname)) return [hostname];
+  return (await lookup(hostname, { all: true })).map(address => address.address);
+}
+
+function ipv4Private(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 || a === 10 || a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224 // multicast and reserved
+  );
+}
+
+// Loopback, private, link-local and other non-public addresses
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  if (isIP(ip) === 4) return ipv4Private(ip);
+  if (isIP(ip) !== 6) return true;
+
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return ipv4Private(mapped[1]);
+  const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return ipv4Private(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return (
+    ip === '::' || ip === '::1' ||
+    /^f[cd]/.test(ip) || // unique local
+    /^fe[89ab]/.test(ip) || // link-local
+    /^ff/.test(ip) // multicast
+  );
+}
+
+// Whether a hostname only resolves to public addresses
+export async function isPublicHost(
+  hostname: string,
+  resolve: (hostname: string) => Promise<string[]> = resolveHost
+): Promise<boolean> {
+  try {
+    const addresses = await resolve(hostname);
+    return addresses.length > 0 && !addresses.some(isPrivateAddress);
+  } catch {
+    return false; // Does not resolve
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, errorResponse } from '@/lib/apiErrors';
+
+// In-memory fixed-window rate limiting per client IP. Enough for a single
+// server process; several instances would each count their own requests.
+// Also a token bucket for the requests this server sends (see lib/upstream.ts).
+
+export interface RateLimiter {
+  // Seconds the key has to wait, or 0 when the request may go ahead
+  check(key: string): number;
+}
+
+interface RateLimiterOptions {
+  limit: number; // requests per window
+  windowMs: number;
+  now?: () => number;
+}
+
+// Forget expired windows once this many keys are tracked
+const PRUNE_THRESHOLD = 10000;
+
+export function createRateLimiter({ limit, windowMs, now = Date.now }: RateLimiterOptions): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    check(key: string): number {
+      const time = now();
+
+      if (windows.size >= PRUNE_THRESHOLD) {
+        for (const [other, window] of windows) {
+          if (time - window.start >= windowMs) windows.delete(other);
+        }
+      }
+
+      const window = windows.get(key);
+      if (!window || time - window.start >= windowMs) {
+        windows.set(key, { start: time, count: 1 });
+        return 0;
+      }
+
+      window.count++;
+      return window.count > limit ? Math.ceil((window.start + windowMs - time) / 1000) : 0;
+    },
+  };
+}
+
+export interface TokenBucket {
+  // Reserve a token and return the milliseconds to wait until it is
+  // available. When that is longer than `maxWaitMs` no token is taken, and
+  // the caller should refuse the request instead of waiting.
+  reserve(maxWaitMs?: number): number;
+}
+
+interface TokenBucketOptions {
+  ratePerSecond: number; // Tokens added per second
+  burst: number; // Most tokens that can be saved up
+  now?: () => number;
+}
+
+// Token bucket whose reservations queue up: the balance goes negative and
+// every caller waits for its own token, in the order they asked. The queue
+// is only as long as the callers' `maxWaitMs` lets it grow.
+export function createTokenBucket({ ratePerSecond, burst, now = Date.now }: TokenBucketOptions): TokenBucket {
+  let tokens = burst;
+  let updatedAt = now();
+
+  return {
+    reserve(maxWaitMs = Infinity): number {
+      const time = now();
+      tokens = Math.min(burst, tokens + ((time - updatedAt) / 1000) * ratePerSecond);
+      updatedAt = time;
+
+      const wait = tokens >= 1 ? 0 : Math.ceil(((1 - tokens) / ratePerSecond) * 1000);
+      if (wait <= maxWaitMs) tokens--;
+      return wait;
+    },
+  };
+}
+
+// Reverse proxies in front of the app that append to X-Forwarded-For
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1);
+
+// Client address as seen by the outermost trusted proxy. Earlier
+// X-Forwarded-For entries are written by the client itself, so they are
+// ignored: the entry the proxies appended is counted from the end.
+export function clientIp(request: NextRequest, hops = TRUSTED_PROXY_HOPS): string {
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) return forwarded[Math.max(0, forwarded.length - hops)];
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+// Returns the 429 response to send, or null when the request may continue
+export function rateLimit(request: NextRequest, limiter: RateLimiter): NextResponse | null {
+  const retryAfter = limiter.check(clientIp(request));
+  if (retryAfter > 0) {
+    return errorResponse(apiError('RATE_LIMITED', 'Too many requests', retryAfter));
+  }
+  return null;
+}
@@ -0,0 +1,77 @@
+// In-process cache with stale-while-revalidate and request coalescing.
+// Fresh entries are served as they are; stale ones are served while a single
+// background load refreshes them; concurrent misses of a key share one load.
+// A version (e.g. of the data the values derive from) marks every entry
+// stored under an older version as stale.
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+export interface CacheLookup<T> {
+  value: T;
+  status: CacheStatus;
+  age: number; // Seconds since the value was loaded
+}
+
+export interface ResponseCache<T> {
+  get(key: string, version: string | number, load: () => Promise<T>): Promise<CacheLookup<T>>;
+}
+
+interface ResponseCacheOptions {
+  ttlMs: number; // How long a value is fresh
+  staleMs: number; // How long after that it may still be served while refreshed
+  maxEntries: number;
+  now?: () => number;
+}
+
+interface Entry<T> {
+  value: T;
+  storedAt: number;
+  version: string | number;
+}
+
+export function createResponseCache<T>({ ttlMs, staleMs, maxEntries, now = Date.now }: ResponseCacheOptions): ResponseCache<T> {
+  const entries = new Map<string, Entry<T>>();
+  const loading = new Map<string, Promise<Entry<T>>>();
+
+  // Load a key once, however many callers ask for it meanwhile
+  function refresh(key: string, version: string | number, load: () => Promise<T>): Promise<Entry<T>> {
+    let pending = loading.get(key);
+    if (!pending) {
+      pending = load()
+        .then(value => {
+          const entry = { value, storedAt: now(), version };
+          // Oldest stored first: drop from the front when full
+          entries.delete(key);
+          entries.set(key, entry);
+          if (entries.size > maxEntries) entries.delete(entries.keys().next().value as string);
+          return entry;
+        })
+        .finally(() => loading.delete(key));
+      loading.set(key, pending);
+    }
+    return pending;
+  }
+
+  return {
+    async get(key, version, load) {
+      const entry = entries.get(key);
+      const age = entry ? now() - entry.storedAt : Infinity;
+
+      if (entry && age < ttlMs && entry.version === version) {
+        return { value: entry.value, status: 'HIT', age: Math.floor(age / 1000) };
+      }
+      if (entry && age < ttlMs + staleMs) {
+        refresh(key, version, load).catch(error => console.error(`Refreshing cached ${key} failed:`, error));
+        return { value: entry.value, status: 'STALE', age: Math.floor(age / 1000) };
+      }
+
+      const loaded = await refresh(key, version, load);
+      return { value: loaded.value, status: 'MISS', age: Math.floor((now() - loaded.storedAt) / 1000) };
+    },
+  };
+}
+
+// X-Cache / Age headers of a response served through a cache
+export function cacheHeaders(lookup?: { status: CacheStatus; age: number }): Record<string, string> {
+  return lookup ? { 'X-Cache': lookup.status, 'Age': String(lookup.age) } : {};
+}
@@ -0,0 +1,79 @@
+// robots.txt rules (RFC 9309): the group for our user agent (or the "*" group
+// when there is none), with the longest matching rule deciding and Allow
+// winning ties. Patterns support the * and $ wildcards.
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+export type RobotsRules = RobotsRule[];
+
+interface Group {
+  agents: string[];
+  rules: RobotsRules;
+}
+
+function patternRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Rules of a robots.txt for the crawler called `agent` (its product token,
+// e.g. "BiciregistroSearch")
+export function parseRobots(text: string, agent: string): RobotsRules {
+  const groups: Group[] = [];
+  let current: Group | null = null;
+  let readingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      // Consecutive user-agent lines share the group that follows them
+      if (!current || !readingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      readingAgents = true;
+    } else if ((key === 'allow' || key === 'disallow') && current) {
+      readingAgents = false;
+      // An empty Disallow allows everything: nothing to match
+      if (value) current.rules.push({ allow: key === 'allow', pattern: value, regex: patternRegex(value) });
+    }
+  }
+
+  const token = agent.toLowerCase();
+  const own = groups.filter(group => group.agents.includes(token));
+  const chosen = own.length > 0 ? own : groups.filter(group => group.agents.includes('*'));
+  return chosen.flatMap(group => group.rules);
+}
+
+// Whether a path (with its query string) may be crawled
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  if (path === '/robots.txt') return true;
+
+  let decisive: RobotsRule | null = null;
+  for (const rule of rules) {
+    if (!rule.regex.test(path)) continue;
+    if (
+      !decisive ||
+      rule.pattern.length > decisive.pattern.length ||
+      (rule.pattern.length === decisive.pattern.length && rule.allow)
+    ) {
+      decisive = rule;
+    }
+  }
+  return decisive ? decisive.allow : true;
+}
@@ -0,0 +1,258 @@
+import { randomBytes, randomUUID } from 'crypto';
+import type { Bicycle, NotificationChannel, SavedSearch, SearchFilters } from '@/types/bicycle';
+import { dataFilePath, readJsonFile, writeJsonFile } from '@/lib/jsonFile';
+import { filterBicycles } from '@/lib/search';
+import { filterNearby } from '@/lib/nearby';
+import { getStoredBicycles } from '@/lib/bicycleStore';
+import { createNotifier } from '@/lib/notifiers';
+import { sameSecret } from '@/lib/auth';
+
+// Saved searches: named SearchFilters that are re-run after every sync and
+// notify their channels when new bicycles match
+
+const SEARCHES_PATH = dataFilePath(process.env.SAVED_SEARCHES_PATH, 'saved-searches.json');
+// Email channels that are not confirmed within this time are dropped
+const CONFIRMATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface SavedSearchRun {
+  searchId: string;
+  newMatches: number;
+  notified: boolean;
+  error?: string;
+}
+
+// Serialize read-modify-write cycles on the saved searches file
+let queue: Promise<unknown> = Promise.resolve();
+
+function withLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task, task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+let runInFlight: Promise<SavedSearchRun[]> | null = null;
+
+async function readSearches(): Promise<SavedSearch[]> {
+  const file = await readJsonFile<SavedSearch[]>(SEARCHES_PATH);
+  return file?.data || [];
+}
+
+async function matchingIds(filters: SearchFilters): Promise<string[]> {
+  return filterNearby(filterBicycles(await getStoredBicycles(), filters), filters).map(bicycle => bicycle.id);
+}
+
+export async function getSavedSearches(): Promise<SavedSearch[]> {
+  return readSearches();
+}
+
+// A saved search as shown to admins: without the secrets of its owner
+export function withoutSecrets({
+  unsubscribeToken: _token,
+  pendingConfirmations: _confirmations,
+  ...search
+}: SavedSearch): Omit<SavedSearch, 'unsubscribeToken' | 'pendingConfirmations'> {
+  return search;
+}
+
+function newSecret(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+// Channels that receive alerts: every one but the unconfirmed emails
+function activeChannels(search: SavedSearch): NotificationChannel[] {
+  return search.channels.filter(channel => !search.pendingConfirmations?.[channelKey(channel)]);
+}
+
+// Create a saved search. Bicycles that already match are marked as seen,
+// so only bicycles that appear later trigger an alert. Email channels start
+// unconfirmed: the caller sends each address its confirmation link.
+export function createSavedSearch(
+  nombre: string,
+  filters: SearchFilters,
+  channels: NotificationChannel[]
+): Promise<SavedSearch> {
+  return withLock(async () => {
+    const now = new Date().toISOString();
+    const emails = channels.filter(channel => channel.type === 'email');
+    const search: SavedSearch = {
+      id: randomUUID(),
+      nombre,
+      filters,
+      channels,
+      seenIds: await matchingIds(filters),
+      unsubscribeToken: newSecret(),
+      ...(emails.length > 0 && {
+        pendingConfirmations: Object.fromEntries(emails.map(channel => [channelKey(channel), newSecret()])),
+      }),
+      createdAt: now,
+      lastRunAt: now,
+    };
+
+    await writeJsonFile(SEARCHES_PATH, [...await readSearches(), search]);
+    return search;
+  });
+}
+
+// Delete a saved search. With `token`, only when it is the search's
+// unsubscribe token (the owner's way to delete it without ADMIN_TOKEN).
+export function deleteSavedSearch(id: string, token?: string): Promise<boolean> {
+  return withLock(async () => {
+    const searches = await readSearches();
+    const remaining = searches.filter(search =>
+      search.id !== id || (token !== undefined && !sameSecret(token, search.unsubscribeToken))
+    );
+    if (remaining.length === searches.length) return false;
+
+    await writeJsonFile(SEARCHES_PATH, remaining);
+    return true;
+  });
+}
+
+// Confirm the email channel whose confirmation link carries `token`.
+// Returns the confirmed channel, or null when nothing matched.
+export function confirmSavedSearchChannel(id: string, token: string): Promise<NotificationChannel | null> {
+  return withLock(async () => {
+    const searches = await readSearches();
+    const search = searches.find(item => item.id === id);
+    const key = Object.entries(search?.pendingConfirmations || {}).find(([, secret]) => sameSecret(token, secret))?.[0];
+    if (!search || !key) return null;
+
+    const { [key]: _confirmed, ...pending } = search.pendingConfirmations as Record<string, string>;
+    search.pendingConfirmations = Object.keys(pending).length > 0 ? pending : undefined;
+    await writeJsonFile(SEARCHES_PATH, searches);
+    return search.channels.find(channel => channelKey(channel) === key) || null;
+  });
+}
+
+// Drop the email channels that were never confirmed, and the searches left
+// without any channel
+function dropUnconfirmed(searches: SavedSearch[], now: number): SavedSearch[] {
+  return searches.filter(search => {
+    if (!search.pendingConfirmations || now - Date.parse(search.createdAt) < CONFIRMATION_TTL_MS) return true;
+
+    const pending = search.pendingConfirmations;
+    search.channels = search.channels.filter(channel => !pending[channelKey(channel)]);
+    search.pendingConfirmations = undefined;
+    if (search.channels.length === 0) {
+      console.log(`Saved search "${search.nombre}" was never confirmed, deleting it`);
+      return false;
+    }
+    return true;
+  });
+}
+
+// Identity of a channel within a search
+export function channelKey(channel: NotificationChannel): string {
+  return channel.type === 'email' ? `email:${channel.to}` : `webhook:${channel.url}`;
+}
+
+// Re-run every saved search against the local index and notify new matches.
+// Each channel only gets the bicycles it was not sent yet, and a bicycle is
+// marked as seen once every channel has it, so a failed channel is retried
+// on the next run without repeating the alert on the others. Unconfirmed
+// emails are left out until confirmed. Bicycles that left the index are
+// forgotten. Concurrent callers share the same run.
+export function runSavedSearches(): Promise<SavedSearchRun[]> {
+  if (!runInFlight) {
+    runInFlight = doRunSavedSearches().finally(() => {
+      runInFlight = null;
+    });
+  }
+  return runInFlight;
+}
+
+interface Delivery {
+  search: SavedSearch;
+  channel: NotificationChannel;
+  bicycles: Bicycle[];
+}
+
+// The deliveries are worked out and stored under the lock, but sent without
+// it, so saving, confirming or unsubscribing never waits for SMTP or webhooks
+async function doRunSavedSearches(): Promise<SavedSearchRun[]> {
+  const bicycles = await getStoredBicycles();
+  const storedIds = new Set(bicycles.map(bicycle => bicycle.id));
+
+  const { deliveries, newIds } = await withLock(async () => {
+    const deliveries: Delivery[] = [];
+    const newIds = new Map<string, string[]>();
+
+    for (const search of dropUnconfirmed(await readSearches(), Date.now())) {
+      const seen = new Set(search.seenIds);
+      const newBicycles = filterNearby(filterBicycles(bicycles, search.filters), search.filters)
+        .filter(bicycle => !seen.has(bicycle.id));
+      newIds.set(search.id, newBicycles.map(bicycle => bicycle.id));
+
+      for (const channel of activeChannels(search)) {
+        const sent = new Set(search.deliveredIds?.[channelKey(channel)] || []);
+        const pending = newBicycles.filter(bicycle => !sent.has(bicycle.id));
+        if (pending.length > 0) deliveries.push({ search, channel, bicycles: pending });
+      }
+    }
+    return { deliveries, newIds };
+  });
+
+  // Search id -> channel key -> bicycles delivered in this run
+  const delivered = new Map<string, Record<string, string[]>>();
+  const errors = new Map<string, string[]>();
+  for (const { search, channel, bicycles: pending } of deliveries) {
+    try {
+      await createNotifier(channel).send({ search, bicycles: pending });
+      const bySearch = delivered.get(search.id) || {};
+      bySearch[channelKey(channel)] = pending.map(bicycle => bicycle.id);
+      delivered.set(search.id, bySearch);
+    } catch (error) {
+      const message = (error as Error).message;
+      console.error(`Saved search "${search.nombre}": ${channel.type} notification failed:`, message);
+      errors.set(search.id, [...errors.get(search.id) || [], `${channel.type}: ${message}`]);
+    }
+  }
+
+  // Merge what was sent into the searches as they are now: some may have
+  // been confirmed, unsubscribed or created meanwhile
+  return withLock(async () => {
+    const searches = dropUnconfirmed(await readSearches(), Date.now());
+    const runs: SavedSearchRun[] = [];
+    const now = new Date().toISOString();
+
+    for (const search of searches) {
+      const ids = newIds.get(search.id);
+      if (!ids) continue;
+
+      const seen = new Set(search.seenIds.filter(id => storedIds.has(id)));
+      const previous = search.deliveredIds || {};
+      const sentNow = delivered.get(search.id) || {};
+      search.lastRunAt = now;
+      const channels = activeChannels(search);
+      const keys = channels.map(channel => channelKey(channel));
+      const deliveredTo = (key: string) => new Set([...previous[key] || [], ...sentNow[key] || []]);
+
+      for (const id of ids) {
+        if (keys.every(key => deliveredTo(key).has(id))) seen.add(id);
+      }
+      search.seenIds = [...seen];
+
+      // Keep the partial deliveries still waiting for another channel
+      const partial = Object.fromEntries(
+        keys
+          .map(key => [key, [...deliveredTo(key)].filter(id => !seen.has(id) && storedIds.has(id))] as const)
+          .filter(([, pending]) => pending.length > 0)
+      );
+      search.deliveredIds = Object.keys(partial).length > 0 ? partial : undefined;
+
+      const searchErrors = errors.get(search.id) || [];
+      runs.push({
+        searchId: search.id,
+        newMatches: ids.length,
+        notified: ids.length > 0 && channels.length > 0 && searchErrors.length === 0,
+        ...(searchErrors.length > 0 && { error: searchErrors.join('; ') }),
+      });
+      if (ids.length > 0 && searchErrors.length === 0) {
+        console.log(`Saved search "${search.nombre}": notified ${ids.length} new bicycles`);
+      }
+    }
+
+    await writeJsonFile(SEARCHES_PATH, searches);
+    return runs;
+  });
+}
@@ -0,0 +1,198 @@
+import type { Bicycle, SearchFilters } from '@/types/bicycle';
+import { parseDateValue } from '@/lib/dates';
+
+// Shared search and text normalization used by every data source, the matching
+// engine and the UI. It has no server-only imports so client components can use it.
+
+// Minimum similarity for a word to count as a typo of another
+const FUZZY_WORD_THRESHOLD = 0.75;
+// Minimum similarity for a serial/registration number with a typo
+const FUZZY_IDENTIFIER_THRESHOLD = 0.8;
+// Weight of a match on the color read from the photo
+const INFERRED_COLOR_WEIGHT = 0.8;
+
+type TextField = 'marca' | 'modelo' | 'color' | 'ciudad' | 'provincia';
+type IdentifierField = 'numeroSerie' | 'numeroMatricula';
+
+const TEXT_FIELDS: TextField[] = ['marca', 'modelo', 'color', 'ciudad', 'provincia'];
+// Fields compared with the filter of the same name; color has its own scoring
+const FILTER_TEXT_FIELDS: TextField[] = ['marca', 'modelo', 'ciudad', 'provincia'];
+const IDENTIFIER_FIELDS: IdentifierField[] = ['numeroSerie', 'numeroMatricula'];
+
+export interface RankedBicycle {
+  bicycle: Bicycle;
+  score: number; // Relevance, 0..1
+}
+
+// Lowercase, strip diacritics and collapse whitespace: "  Málaga " -> "malaga"
+export function normalizeText(value?: string): string {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Serial and registration numbers: drop separators and treat the characters
+// people confuse when copying them as equal (O/0, I/1)
+export function normalizeIdentifier(value?: string): string {
+  return normalizeText(value)
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '')
+    .replace(/O/g, '0')
+    .replace(/I/g, '1');
+}
+
+export function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = current;
+    }
+  }
+
+  return previous[b.length];
+}
+
+// Similarity between two already normalized strings, 0..1 (1 = identical)
+export function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (a.includes(b) || b.includes(a)) return 0.9;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+// How well a free-text query matches a field value, 0 when it does not match
+export function textScore(query: string, value?: string): number {
+  const q = normalizeText(query);
+  const v = normalizeText(value);
+  if (!q) return 1;
+  if (!v) return 0;
+
+  if (v === q) return 1;
+  if (v.startsWith(q) || v.includes(` ${q}`)) return 0.9;
+  if (v.includes(q)) return 0.8;
+
+  // Typo tolerance: every query word must be close to some word of the value
+  const valueWords = v.split(' ');
+  let total = 0;
+  for (const word of q.split(' ')) {
+    const best = Math.max(...valueWords.map(valueWord => similarity(word, valueWord)));
+    if (best < FUZZY_WORD_THRESHOLD) return 0;
+    total += best;
+  }
+  return 0.7 * (total / q.split(' ').length);
+}
+
+// How well a serial/registration number query matches a value, 0 when it does not match
+export function identifierScore(query: string, value?: string): number {
+  const q = normalizeIdentifier(query);
+  const v = normalizeIdentifier(value);
+  if (!q) return 1;
+  if (!v) return 0;
+
+  if (v === q) return 1;
+  if (v.includes(q)) return 0.9;
+
+  const score = similarity(q, v);
+  return score >= FUZZY_IDENTIFIER_THRESHOLD ? 0.7 * score : 0;
+}
+
+// Match the general search term: every word must match some field
+function searchTermScore(term: string, bicycle: Bicycle): number {
+  const words = normalizeText(term).split(' ').filter(Boolean);
+  if (words.length === 0) return 1;
+
+  let total = 0;
+  for (const word of words) {
+    const best = Math.max(
+      ...TEXT_FIELDS.map(field => textScore(word, bicycle[field])),
+      textScore(word, bicycle.descripcion),
+      ...IDENTIFIER_FIELDS.map(field => identifierScore(word, bicycle[field]))
+    );
+    if (best === 0) return 0;
+    total += best;
+  }
+  return total / words.length;
+}
+
+// Color filter score. A missing or free-form color ("negro/rojo") falls back
+// to the color read from the photo, trusted a bit less.
+function colorScore(query: string, bicycle: Bicycle): number {
+  const inferred = bicycle.colorInferido ? INFERRED_COLOR_WEIGHT * textScore(query, bicycle.colorInferido) : 0;
+  return Math.max(textScore(query, bicycle.color), inferred);
+}
+
+// Score one bicycle against the filters. Every filter must match (0 otherwise),
+// the relevance is the average of the per-filter scores.
+export function scoreBicycle(bicycle: Bicycle, filters: SearchFilters): number {
+  const scores: number[] = [];
+
+  for (const field of FILTER_TEXT_FIELDS) {
+    const query = filters[field];
+    if (query) scores.push(textScore(query, bicycle[field]));
+  }
+  if (filters.color) {
+    scores.push(colorScore(filters.color, bicycle));
+  }
+  for (const field of IDENTIFIER_FIELDS) {
+    const query = filters[field];
+    if (query) scores.push(identifierScore(query, bicycle[field]));
+  }
+  if (filters.searchTerm) {
+    scores.push(searchTermScore(filters.searchTerm, bicycle));
+  }
+
+  if (scores.length === 0) return 1;
+  if (scores.some(score => score === 0)) return 0;
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+// Filter bicycles by the text filters and rank them by relevance (best first).
+// Bicycles with the same score keep their original order.
+export function searchBicycles(bicycles: Bicycle[], filters: SearchFilters): RankedBicycle[] {
+  return bicycles
+    .map(bicycle => ({ bicycle, score: scoreBicycle(bicycle, filters) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Whether a date is within [desde, hasta]. Bicycles without the date never
+// match a range.
+function inDateRange(value: string | undefined, desde?: string, hasta?: string): boolean {
+  if (!desde && !hasta) return true;
+
+  const date = parseDateValue(value);
+  if (Number.isNaN(date)) return false;
+  if (desde && date < parseDateValue(desde)) return false;
+  if (hasta && date > parseDateValue(hasta)) return false;
+  return true;
+}
+
+// Filter bicycles by listing (tipo, default localizadas), the date ranges and
+// the text filters, best matches first
+export function filterBicycles(bicycles: Bicycle[], filters: SearchFilters): Bicycle[] {
+  let filtered = bicycles;
+
+  if (filters.tipo !== 'todas') {
+    const estado = filters.tipo === 'desaparecidas' ? 'desaparecida' : 'localizada';
+    filtered = filtered.filter(b => (b.estado || 'localizada') === estado);
+  }
+
+  filtered = filtered.filter(b =>
+    inDateRange(b.fechaRobo, filters.fechaRoboDesde, filters.fechaRoboHasta)
+    && inDateRange(b.fechaLocalizacion, filters.fechaLocalizacionDesde, filters.fechaLocalizacionHasta)
+  );
+
+  return searchBicycles(filtered, filters).map(result => result.bicycle);
+}
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { clearApiSession, getApiSession, isListingApiRequest, saveApiSession } from '@/lib/sources/apiSession';
+
+const PAGED_URL = 'https://www.biciregistro.es/biciregistro/rest/v1/bicicletas/pagedLocalizadas';
+
+describe('REST API session capture', () => {
+  afterEach(() => clearApiSession());
+
+  it('only watches the listing endpoints', () => {
+    expect(isListingApiRequest(PAGED_URL)).toBe(true);
+    expect(isListingApiRequest('https://www.biciregistro.es/biciregistro/rest/v1/bicicletas/pagedDesaparecidas?page=2')).toBe(true);
+    expect(isListingApiRequest('https://www.biciregistro.es/main.js')).toBe(false);
+  });
+
+  it('keeps the credentials and drops the other headers', () => {
+    saveApiSession(PAGED_URL, {
+      'authorization': 'Bearer abc',
+      'cookie': 'JSESSIONID=1',
+      'x-xsrf-token': 'xyz',
+      'x-requested-with': 'XMLHttpRequest',
+      'user-agent': 'Chromium',
+    });
+    expect(getApiSession()).toMatchObject({
+      headers: { 'authorization': 'Bearer abc', 'cookie': 'JSESSIONID=1', 'x-xsrf-token': 'xyz' },
+      endpoint: '/biciregistro/rest/v1/bicicletas/pagedLocalizadas',
+    });
+    expect(getApiSession()?.headers).not.toHaveProperty('user-agent');
+  });
+
+  it('ignores requests sent without credentials', () => {
+    saveApiSession(PAGED_URL, { 'accept': 'application/json' });
+    expect(getApiSession()).toBeNull();
+  });
+});
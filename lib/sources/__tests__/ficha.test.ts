@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { fetchFicha, isAllowedFichaUrl } from '@/lib/sources/ficha';
+
+describe('isAllowedFichaUrl', () => {
+  it('only allows biciregistro.es over https on the default port', () => {
+    expect(isAllowedFichaUrl('https://www.biciregistro.es/#/ficha/123')).toBe(true);
+    expect(isAllowedFichaUrl('https://biciregistro.es/bicicleta/123')).toBe(true);
+    expect(isAllowedFichaUrl('http://www.biciregistro.es/bicicleta/123')).toBe(false);
+    expect(isAllowedFichaUrl('https://www.biciregistro.es:8080/bicicleta/123')).toBe(false);
+    expect(isAllowedFichaUrl('https://www.biciregistro.es.example.com/bicicleta/123')).toBe(false);
+    expect(isAllowedFichaUrl('https://user@www.biciregistro.es/bicicleta/123')).toBe(false);
+    expect(isAllowedFichaUrl('not a url')).toBe(false);
+  });
+
+  it('refuses to fetch a scraped link to another host', async () => {
+    await expect(fetchFicha('http://169.254.169.254/latest/meta-data')).rejects.toThrow('not on biciregistro.es');
+  });
+});
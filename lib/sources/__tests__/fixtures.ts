@@ -0,0 +1,15 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+
+// Pages recorded from biciregistro.es (or built to match its markup) and the
+// Bicycle[] their parser is expected to produce
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+export function readFixture(name: string): string {
+  return readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+}
+
+export function readJsonFixture<T = unknown>(name: string): T {
+  return JSON.parse(readFixture(name)) as T;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseBicycleData } from '@/lib/sources/html';
+import { parseAPIResponse } from '@/lib/sources/rest';
+import { readFixture, readJsonFixture } from './fixtures';
+
+describe('parseBicycleData', () => {
+  it('parses a card layout and sees the next page link', () => {
+    const result = parseBicycleData(readFixture('html-cards.html'), 'localizada');
+    expect(result).toEqual(readJsonFixture('html-cards.expected.json'));
+  });
+
+  it('parses a table layout and sees the disabled next link of the last page', () => {
+    const result = parseBicycleData(readFixture('html-table.html'), 'desaparecida');
+    expect(result).toEqual(readJsonFixture('html-table.expected.json'));
+  });
+
+  it('leaves hasNextPage unknown when the page has no pagination', () => {
+    expect(parseBicycleData('<html><body><p>Sin resultados</p></body></html>', 'localizada')).toEqual({
+      bicycles: [],
+      hasNextPage: null,
+      selector: null,
+    });
+  });
+
+  it('derives the same IDs when the same page is scraped again', () => {
+    const first = parseBicycleData(readFixture('html-cards.html'), 'localizada');
+    const second = parseBicycleData(readFixture('html-cards.html'), 'localizada');
+    expect(second.bicycles.map(bicycle => bicycle.id)).toEqual(first.bicycles.map(bicycle => bicycle.id));
+  });
+
+  it('gives a bicycle the registry id of its ficha link, like the REST API does', () => {
+    const { bicycles } = parseBicycleData(readFixture('html-cards.html'), 'localizada');
+    const [fromApi] = parseAPIResponse([{ id: 9001, marca: 'Otra', modelo: 'Cualquiera' }], 'localizada');
+    expect(bicycles.map(bicycle => bicycle.id)).toContain(fromApi.id);
+  });
+});
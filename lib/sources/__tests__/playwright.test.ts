@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseRenderedListing } from '@/lib/sources/playwright';
+import { readFixture, readJsonFixture } from './fixtures';
+
+describe('parseRenderedListing', () => {
+  it('extracts the labelled fields of the table rows of found bicycles', () => {
+    const { bicycles, selector } = parseRenderedListing(readFixture('spa-localizadas-table.html'), 'localizada');
+    expect(bicycles).toEqual(readJsonFixture('spa-localizadas-table.expected.json'));
+    expect(selector).toBe('table tbody tr');
+  });
+
+  it('treats "No existe en lista" and "SIN MODELO" as unknown brand and model', () => {
+    const { bicycles: [, unlisted] } = parseRenderedListing(readFixture('spa-localizadas-table.html'), 'localizada');
+    expect(unlisted.marca).toBe('Desconocida');
+    expect(unlisted.modelo).toBe('Desconocido');
+  });
+
+  it('reads the theft date and place of missing bicycles', () => {
+    const { bicycles } = parseRenderedListing(readFixture('spa-desaparecidas-table.html'), 'desaparecida');
+    expect(bicycles).toEqual(readJsonFixture('spa-desaparecidas-table.expected.json'));
+  });
+
+  it('returns no bicycles for a page that did not render any', () => {
+    expect(parseRenderedListing('<app-root></app-root>', 'localizada')).toEqual({ bicycles: [], selector: null });
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkHasMorePages, parseAPIResponse, restSource } from '@/lib/sources/rest';
+import { thumbnailUrl } from '@/lib/proxyImage';
+import { readJsonFixture } from './fixtures';
+
+describe('parseAPIResponse', () => {
+  it('parses a Spring Data Page of found bicycles', () => {
+    const page = readJsonFixture('rest-spring-page.json');
+    expect(parseAPIResponse(page, 'localizada')).toEqual(readJsonFixture('rest-spring-page.expected.json'));
+  });
+
+  it('parses a plain array of missing bicycles with English and Spanish keys', () => {
+    const items = readJsonFixture('rest-plain-array.json');
+    expect(parseAPIResponse(items, 'desaparecida')).toEqual(readJsonFixture('rest-plain-array.expected.json'));
+  });
+
+  it('accepts the other wrappers seen on the API', () => {
+    const items = readJsonFixture<unknown[]>('rest-plain-array.json');
+    const expected = readJsonFixture('rest-plain-array.expected.json');
+    for (const key of ['data', 'bicicletas', 'results']) {
+      expect(parseAPIResponse({ [key]: items }, 'desaparecida')).toEqual(expected);
+    }
+  });
+
+  it('serves the photos through the image proxy, so the cards get resized thumbnails', () => {
+    const [bicycle] = parseAPIResponse(readJsonFixture('rest-spring-page.json'), 'localizada');
+    expect(thumbnailUrl(bicycle.imagen as string)).toBe(
+      '/api/proxy-image?url=https%3A%2F%2Fwww.biciregistro.es%2Fbiciregistro%2Fimagenes%2Flocalizadas%2F48113.jpg&w=480'
+    );
+  });
+
+  it('returns no bicycles for unknown shapes', () => {
+    expect(parseAPIResponse({ error: 'Not found' }, 'localizada')).toEqual([]);
+    expect(parseAPIResponse(null, 'localizada')).toEqual([]);
+  });
+});
+
+describe('checkHasMorePages', () => {
+  it('follows the Spring Data Page flags', () => {
+    expect(checkHasMorePages(readJsonFixture('rest-spring-page.json'))).toBe(true);
+    expect(checkHasMorePages(readJsonFixture('rest-last-page.json'))).toBe(false);
+  });
+
+  it('uses the page numbers when the last flag is missing', () => {
+    expect(checkHasMorePages({ number: 0, totalPages: 2 })).toBe(true);
+    expect(checkHasMorePages({ number: 1, totalPages: 2 })).toBe(false);
+  });
+
+  it('understands the custom hasNext / hasMore flags', () => {
+    expect(checkHasMorePages({ hasNext: true })).toBe(true);
+    expect(checkHasMorePages({ hasMore: true })).toBe(true);
+    expect(checkHasMorePages([])).toBe(false);
+  });
+});
+
+describe('restSource.search', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the ids of a known brand and colour in the pagedLocalizadas body', async () => {
+    const bodies: unknown[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string | URL, init?: RequestInit) => {
+      if (String(url).endsWith('/robots.txt')) return new Response(null, { status: 404 });
+      bodies.push(JSON.parse(String(init?.body)));
+      return Response.json(readJsonFixture('rest-spring-page.json'));
+    }));
+
+    const page = await restSource.search({ tipo: 'localizadas', marca: 'Orbea', marcaId: '12', color: 'Rojo', colorId: '3' }, 1);
+
+    expect(page.bicycles.length).toBeGreaterThan(0);
+    expect(bodies[0]).toMatchObject({ pageNumber: 0, marca: 'Orbea', idMarca: '12', color: 'Rojo', idColor: '3' });
+  });
+});
@@ -0,0 +1,46 @@
+import { LISTADOS } from '@/lib/sources/shared';
+
+// Credentials the SPA of biciregistro.es sends to its REST API (session
+// cookies, bearer and XSRF tokens), captured by the Playwright source while
+// it renders a listing. The REST source sends them with its own requests, so
+// once the SPA has been rendered the API can be called directly even if it
+// asks for a session. Kept in memory until the API rejects them.
+
+export interface ApiSession {
+  headers: Record<string, string>;
+  capturedAt: string; // ISO
+  endpoint: string; // Request the headers were taken from
+}
+
+// Headers worth replaying; the rest (user agent, accept...) the REST source sets itself
+const SESSION_HEADER_PATTERN = /^(authorization|cookie|x-[\w-]*(token|auth|session)[\w-]*)$/i;
+
+let session: ApiSession | null = null;
+
+// Whether a request made by the SPA is a call to one of the listing endpoints
+export function isListingApiRequest(url: string): boolean {
+  const { pathname } = new URL(url);
+  return Object.values(LISTADOS).some(({ restEndpoints }) =>
+    restEndpoints.some(endpoint => pathname.endsWith(endpoint))
+  );
+}
+
+export function saveApiSession(url: string, requestHeaders: Record<string, string>): void {
+  const headers = Object.fromEntries(
+    Object.entries(requestHeaders).filter(([name]) => SESSION_HEADER_PATTERN.test(name))
+  );
+  // A request without credentials says nothing about the session
+  if (Object.keys(headers).length === 0) return;
+
+  if (!session) console.log(`Captured the REST API session from ${new URL(url).pathname}`);
+  session = { headers, capturedAt: new Date().toISOString(), endpoint: new URL(url).pathname };
+}
+
+export function getApiSession(): ApiSession | null {
+  return session;
+}
+
+export function clearApiSession(): void {
+  if (session) console.log('REST API session rejected, dropping it');
+  session = null;
+}
@@ -0,0 +1,103 @@
+import { chromium, type Browser, type Page } from 'playwright';
+import { USER_AGENT } from '@/lib/upstream';
+
+// Shared headless Chromium for the pages that have to be rendered (the SPA
+// listings and fichas). The browser is launched on first use and kept open
+// between requests; each request gets its own context, so cookies do not leak
+// between them. PLAYWRIGHT_MAX_PAGES limits how many pages render at once and
+// the browser is closed after PLAYWRIGHT_IDLE_SECONDS without any.
+
+const MAX_PAGES = Math.max(1, Number(process.env.PLAYWRIGHT_MAX_PAGES) || 2);
+const IDLE_MS = (Number(process.env.PLAYWRIGHT_IDLE_SECONDS) || 300) * 1000;
+
+let browserPromise: Promise<Browser> | null = null;
+let activePages = 0;
+const waiting: (() => void)[] = [];
+let idleTimer: NodeJS.Timeout | null = null;
+
+function launchBrowser(): Promise<Browser> {
+  if (!browserPromise) {
+    console.log('Launching headless browser...');
+    const launching = chromium.launch({
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    });
+    browserPromise = launching;
+
+    launching.then(
+      browser => browser.on('disconnected', () => {
+        if (browserPromise === launching) browserPromise = null;
+      }),
+      // Let the next request try again (e.g. once Chromium is installed)
+      () => {
+        if (browserPromise === launching) browserPromise = null;
+      }
+    );
+  }
+  return browserPromise;
+}
+
+// Wait for a free page slot
+function acquireSlot(): Promise<void> {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  if (activePages < MAX_PAGES) {
+    activePages++;
+    return Promise.resolve();
+  }
+  return new Promise(resolve => waiting.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waiting.shift();
+  if (next) {
+    next(); // The slot passes straight to the next request
+    return;
+  }
+
+  activePages--;
+  if (activePages === 0) {
+    idleTimer = setTimeout(() => {
+      idleTimer = null;
+      void closeBrowserPool();
+    }, IDLE_MS);
+    idleTimer.unref();
+  }
+}
+
+// Run `render` with a fresh page of the shared browser
+export async function withBrowserPage<T>(render: (page: Page) => Promise<T>): Promise<T> {
+  await acquireSlot();
+  try {
+    const browser = await launchBrowser();
+    const context = await browser.newContext({
+      userAgent: USER_AGENT,
+      locale: 'es-ES',
+      ignoreHTTPSErrors: true,
+    });
+
+    try {
+      return await render(await context.newPage());
+    } finally {
+      await context.close().catch(() => undefined);
+    }
+  } finally {
+    releaseSlot();
+  }
+}
+
+export async function closeBrowserPool(): Promise<void> {
+  const closing = browserPromise;
+  browserPromise = null;
+  if (!closing) return;
+
+  try {
+    const browser = await closing;
+    console.log('Closing idle headless browser');
+    await browser.close();
+  } catch {
+    // It never launched
+  }
+}
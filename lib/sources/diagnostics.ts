@@ -0,0 +1,69 @@
+import type { ApiError, ApiErrorCode } from '@/types/bicycle';
+import { FAILURE_PRIORITY, apiError } from '@/lib/apiErrors';
+
+// Outcome of the recent requests of each source to biciregistro.es, for
+// GET /api/health/sources. Kept in memory: the sync runs in this process, so
+// the figures describe the latest sync (and any lookups since).
+
+export interface SourceAttempt {
+  at: string; // ISO
+  ok: boolean; // The request answered (HTTP 2xx, parsed without errors)
+  latencyMs: number;
+  httpStatus?: number;
+  selector?: string | null; // Card selector that matched (HTML / rendered pages), null when none did
+  itemCount: number; // Bicycles parsed
+  error?: string;
+  code?: ApiErrorCode; // Why the attempt failed
+  retryAfter?: number; // Seconds, from the Retry-After of a 429
+}
+
+export interface SourceDiagnostics {
+  source: string; // BicycleSource name
+  target: string; // Endpoint or URL of the source
+  attempts: number;
+  failures: number;
+  lastAttempt: SourceAttempt;
+  // Last attempt that answered with bicycles. An answer without any usually
+  // means the markup or the API changed, not that there are no bicycles.
+  lastSuccess: SourceAttempt | null;
+}
+
+const diagnostics = new Map<string, SourceDiagnostics>();
+
+export function recordSourceAttempt(source: string, target: string, attempt: Omit<SourceAttempt, 'at'>): void {
+  const entry: SourceAttempt = { at: new Date().toISOString(), ...attempt };
+  // A page where no card selector matches is a page whose markup changed
+  if (entry.ok && entry.selector === null && !entry.code) entry.code = 'UPSTREAM_LAYOUT_CHANGED';
+  const key = `${source} ${target}`;
+  const previous = diagnostics.get(key);
+
+  diagnostics.set(key, {
+    source,
+    target,
+    attempts: (previous?.attempts || 0) + 1,
+    failures: (previous?.failures || 0) + (entry.ok ? 0 : 1),
+    lastAttempt: entry,
+    lastSuccess: entry.ok && entry.itemCount > 0 ? entry : previous?.lastSuccess || null,
+  });
+}
+
+// Every recorded source / target, grouped by source
+export function getSourceDiagnostics(): SourceDiagnostics[] {
+  return Array.from(diagnostics.values()).sort((a, b) =>
+    a.source.localeCompare(b.source) || a.target.localeCompare(b.target)
+  );
+}
+
+// Most relevant failure of the given sources in the attempts made since
+// `since` (ISO), e.g. to explain why a sync got no bicycles
+export function failureSince(sources: string[], since: string): ApiError | null {
+  const failed = Array.from(diagnostics.values())
+    .map(entry => entry.lastAttempt.code && sources.includes(entry.source) && entry.lastAttempt.at >= since ? entry.lastAttempt : null)
+    .filter((attempt): attempt is SourceAttempt => attempt !== null);
+  if (failed.length === 0) return null;
+
+  const [worst] = failed.sort((a, b) =>
+    FAILURE_PRIORITY.indexOf(a.code as ApiErrorCode) - FAILURE_PRIORITY.indexOf(b.code as ApiErrorCode)
+  );
+  return apiError(worst.code as ApiErrorCode, worst.error || 'No bicycles parsed', worst.retryAfter);
+}
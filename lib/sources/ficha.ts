@@ -0,0 +1,184 @@
+import type { Deposito } from '@/types/bicycle';
+import * as cheerio from 'cheerio';
+import { normalizeText } from '@/lib/search';
+import { proxiedImageUrl } from '@/lib/proxyImage';
+import { withBrowserPage } from '@/lib/sources/browserPool';
+import { permitNavigation, upstreamFetch } from '@/lib/upstream';
+
+// Detail page ("ficha") of a bicycle on biciregistro.es: every photo, the
+// depósito that holds it and the rest of its registration data. Ficha links
+// are scraped, so absolute ones could point anywhere: only biciregistro.es is
+// fetched or rendered, redirects included.
+
+const FICHA_HOSTS = ['biciregistro.es', 'www.biciregistro.es'];
+const FICHA_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 3;
+const MAX_LABEL_LENGTH = 40;
+
+export interface Ficha {
+  imagenes: string[];
+  descripcion?: string;
+  deposito?: Deposito;
+  datosRegistro: Record<string, string>;
+}
+
+// Labels that are not registration data (normalized)
+const DESCRIPCION_LABELS = ['descripcion', 'observaciones', 'comentarios'];
+const DEPOSITO_LABELS: Record<string, keyof Deposito> = {
+  deposito: 'nombre',
+  'lugar de deposito': 'nombre',
+  direccion: 'direccion',
+  'direccion del deposito': 'direccion',
+  horario: 'horario',
+  'horario de atencion': 'horario',
+  telefono: 'telefono',
+};
+
+// Images that are part of the page layout, not photos of the bicycle
+const LAYOUT_IMAGE_PATTERN = /logo|icon|sprite|banner|placeholder|\.svg/i;
+
+// Whether a ficha URL is on biciregistro.es, over https and the default port
+export function isAllowedFichaUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return (
+      parsed.protocol === 'https:' &&
+      !parsed.username &&
+      !parsed.password &&
+      parsed.port === '' &&
+      FICHA_HOSTS.includes(parsed.hostname.toLowerCase())
+    );
+  } catch {
+    return false;
+  }
+}
+
+function assertFichaUrl(url: string): void {
+  if (!isAllowedFichaUrl(url)) {
+    throw new Error(`Ficha URL is not on biciregistro.es: ${url}`);
+  }
+}
+
+export async function fetchFicha(fichaUrl: string): Promise<Ficha> {
+  assertFichaUrl(fichaUrl);
+  // SPA routes (#/...) only have content once rendered
+  const html = fichaUrl.includes('#/') ? await renderFicha(fichaUrl) : await downloadFicha(fichaUrl);
+  return parseFicha(html);
+}
+
+// Download a ficha, following redirects by hand so each hop is checked
+async function downloadFicha(url: string): Promise<string> {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertFichaUrl(current);
+    const response = await upstreamFetch(current, {
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml',
+        'Accept-Language': 'es-ES,es;q=0.9',
+      },
+      redirect: 'manual',
+      timeoutMs: FICHA_TIMEOUT_MS,
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      current = new URL(location, current).toString();
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.text();
+  }
+  throw new Error(`Too many redirects fetching ${url}`);
+}
+
+async function renderFicha(url: string): Promise<string> {
+  await permitNavigation(url);
+  return withBrowserPage(async page => {
+    // Keep redirects and scripts from taking the page off biciregistro.es
+    await page.route('**/*', route => {
+      const request = route.request();
+      const offSite = request.isNavigationRequest() && request.frame() === page.mainFrame() && !isAllowedFichaUrl(request.url());
+      return offSite ? route.abort('blockedbyclient') : route.continue();
+    });
+    await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
+    return page.content();
+  });
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Collect "label → value" pairs from definition lists, two-column table rows
+// and "Label: value" lines
+function labelledValues($: cheerio.CheerioAPI): [string, string][] {
+  const pairs: [string, string][] = [];
+  const add = (label: string, value: string) => {
+    const cleanLabel = cleanText(label).replace(/[:*]+$/, '').trim();
+    const cleanValue = cleanText(value);
+    if (cleanLabel && cleanValue && cleanLabel.length <= MAX_LABEL_LENGTH) {
+      pairs.push([cleanLabel, cleanValue]);
+    }
+  };
+
+  $('dt').each((_, element) => {
+    add($(element).text(), $(element).nextAll('dd').first().text());
+  });
+
+  $('tr').each((_, element) => {
+    const $cells = $(element).children('th, td');
+    if ($cells.length === 2) add($($cells[0]).text(), $($cells[1]).text());
+  });
+
+  $('li, p, .campo, .dato').each((_, element) => {
+    const $element = $(element);
+    if ($element.children('li, p, dl, table').length > 0) return;
+    const match = cleanText($element.text()).match(/^([^:]{2,40}):\s*(.+)$/);
+    if (match) add(match[1], match[2]);
+  });
+
+  return pairs;
+}
+
+export function parseFicha(html: string): Ficha {
+  const $ = cheerio.load(html);
+  const $content = $('.ficha, .ficha-bicicleta, main, #content').first();
+  const $root = $content.length > 0 ? $content : $('body');
+
+  const imagenes: string[] = [];
+  $root.find('img').each((_, element) => {
+    const src = $(element).attr('data-src') || $(element).attr('src');
+    if (!src || src.startsWith('data:') || LAYOUT_IMAGE_PATTERN.test(src)) return;
+
+    const imagen = proxiedImageUrl(src);
+    if (!imagenes.includes(imagen)) imagenes.push(imagen);
+  });
+
+  const ficha: Ficha = { imagenes, datosRegistro: {} };
+  const deposito: Deposito = {};
+
+  for (const [label, value] of labelledValues($)) {
+    const key = normalizeText(label);
+
+    if (DESCRIPCION_LABELS.includes(key)) {
+      ficha.descripcion = ficha.descripcion || value;
+    } else if (DEPOSITO_LABELS[key]) {
+      deposito[DEPOSITO_LABELS[key]] = deposito[DEPOSITO_LABELS[key]] || value;
+    } else if (!(label in ficha.datosRegistro)) {
+      ficha.datosRegistro[label] = value;
+    }
+  }
+
+  if (!ficha.descripcion) {
+    const descripcion = cleanText($root.find('.descripcion, .description, [data-descripcion]').first().text());
+    if (descripcion) ficha.descripcion = descripcion;
+  }
+  if (Object.keys(deposito).length > 0) ficha.deposito = deposito;
+
+  return ficha;
+}
@@ -0,0 +1,333 @@
+import type { Bicycle, SearchFilters } from '@/types/bicycle';
+import * as cheerio from 'cheerio';
+import type { BicycleSource, SourceHealth, SourcePage } from '@/lib/sources/types';
+import { isoDate } from '@/lib/dates';
+import { classifyError, httpErrorCode, parseRetryAfter } from '@/lib/apiErrors';
+import { recordSourceAttempt } from '@/lib/sources/diagnostics';
+import { upstreamFetch } from '@/lib/upstream';
+import { proxiedImageUrl } from '@/lib/proxyImage';
+import {
+  LISTADOS,
+  extractFichaUrl,
+  extractImage,
+  extractText,
+  findByIdInListing,
+  listadosForTipo,
+  resolveFichaUrl,
+  stableBicycleId,
+  type Listado,
+} from '@/lib/sources/shared';
+
+// Strategy 3: Scrape the server-rendered HTML listing pages
+
+const MAX_SCRAPING_PAGES = 100;
+const SCRAPING_TIMEOUT_MS = 15000;
+
+export interface ParsedListingPage {
+  bicycles: Bicycle[];
+  hasNextPage: boolean | null;
+  selector: string | null;
+}
+
+// Fetch a single page of bicycles
+async function fetchBicyclesPage(
+  filters: SearchFilters, 
+  page: number,
+  listado: Listado
+): Promise<ParsedListingPage> {
+  const maxRetries = 3;
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    const baseUrl = LISTADOS[listado].htmlUrl;
+    const startedAt = Date.now();
+    let httpStatus: number | undefined;
+    let retryAfter: number | undefined;
+
+    try {
+      // Build URL with query parameters
+      const params = new URLSearchParams();
+      
+      if (filters.marca) params.append('marca', filters.marca);
+      if (filters.modelo) params.append('modelo', filters.modelo);
+      if (filters.color) params.append('color', filters.color);
+      if (filters.numeroSerie) params.append('numero_serie', filters.numeroSerie);
+      if (filters.numeroMatricula) params.append('numero_matricula', filters.numeroMatricula);
+      if (filters.ciudad) params.append('ciudad', filters.ciudad);
+      if (filters.provincia) params.append('provincia', filters.provincia);
+      if (filters.searchTerm) params.append('q', filters.searchTerm);
+      
+      // Add page parameter
+      if (page > 1) {
+        params.append('page', page.toString());
+      }
+
+      const url = params.toString() ? `${baseUrl}?${params.toString()}` : baseUrl;
+      
+      console.log(`Attempt ${attempt}/${maxRetries} to fetch: ${url}`);
+      
+      const response = await upstreamFetch(url, {
+        headers: {
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+          'Accept-Language': 'es-ES,es;q=0.9,en-US;q=0.8,en;q=0.7',
+          'Cache-Control': 'no-cache',
+          'Pragma': 'no-cache',
+        },
+        cache: 'default', // Use browser cache
+        timeoutMs: SCRAPING_TIMEOUT_MS,
+      });
+
+      httpStatus = response.status;
+
+      if (!response.ok) {
+        retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const html = await response.text();
+      
+      // Parse HTML to extract bicycle data and pagination info
+      const result = parseBicycleData(html, LISTADOS[listado].estado);
+      recordSourceAttempt(htmlSource.name, baseUrl, {
+        ok: true,
+        latencyMs: Date.now() - startedAt,
+        httpStatus,
+        selector: result.selector,
+        itemCount: result.bicycles.length,
+      });
+      
+      console.log(`Page ${page}: Found ${result.bicycles.length} bicycles, hasNextPage: ${result.hasNextPage}`);
+      
+      return result;
+    } catch (error) {
+      lastError = error as Error;
+      recordSourceAttempt(htmlSource.name, baseUrl, {
+        ok: false,
+        latencyMs: Date.now() - startedAt,
+        httpStatus,
+        itemCount: 0,
+        error: lastError.message,
+        code: httpStatus ? httpErrorCode(httpStatus) : classifyError(lastError),
+        retryAfter,
+      });
+      const errorDetails = {
+        attempt,
+        page,
+        message: lastError.message,
+        name: lastError.name,
+        cause: (lastError as any).cause?.message || 'unknown',
+      };
+      console.error(`Attempt ${attempt}/${maxRetries} failed for page ${page}:`, errorDetails);
+
+      // The upstream client already waited as long as it is willing to
+      if (httpStatus === 429) break;
+      
+      if (attempt < maxRetries) {
+        // Wait before retrying (exponential backoff)
+        const waitTime = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+        console.log(`Waiting ${waitTime}ms before retry...`);
+        await new Promise(resolve => setTimeout(resolve, waitTime));
+      }
+    }
+  }
+
+  console.error(`All ${maxRetries} attempts failed for page ${page}:`, lastError);
+  return { bicycles: [], hasNextPage: null, selector: null };
+}
+
+// Parse a listing page: its bicycles, whether there is a next page and the
+// card selector that matched (null when none did)
+export function parseBicycleData(html: string, estado: string): ParsedListingPage {
+  const bicycles: Bicycle[] = [];
+  let hasNextPage: boolean | null = null;
+  let selector: string | null = null;
+  
+  try {
+    const $ = cheerio.load(html);
+    
+    // Detect pagination - look for "next" links or page indicators
+    const paginationSelectors = [
+      'a.next:not(.disabled)',
+      'a[rel="next"]',
+      'a:contains("Siguiente"):not(.disabled)',
+      'a:contains("›"):not(.disabled)',
+      'li.next:not(.disabled) a',
+      '.pagination .next:not(.disabled) a',
+      'nav[aria-label*="pagination" i] a:contains("›")',
+    ];
+    
+    for (const selector of paginationSelectors) {
+      const $next = $(selector);
+      if ($next.length > 0) {
+        hasNextPage = true;
+        console.log(`Found next page indicator with selector: ${selector}`);
+        break;
+      }
+    }
+    
+    // If no next page found, check if we're on the last page
+    if (hasNextPage === null) {
+      const lastPageSelectors = [
+        'a.next.disabled',
+        'li.next.disabled',
+        '.pagination .disabled:contains("Siguiente")',
+        '.pagination .disabled:contains("›")',
+      ];
+      
+      for (const selector of lastPageSelectors) {
+        const $disabled = $(selector);
+        if ($disabled.length > 0) {
+          hasNextPage = false;
+          console.log(`Detected last page with selector: ${selector}`);
+          break;
+        }
+      }
+    }
+    
+    // Common patterns for bicycle listings on Spanish bike registry sites
+    // Try multiple selectors to find bicycle cards
+    const cardSelectors = [
+      '.bicicleta-card',
+      '.bicycle-card',
+      '.bike-item',
+      '.bicicleta-item',
+      'article.bicicleta',
+      '.card.bicicleta',
+      '[data-bicicleta]',
+      '[data-bicycle]',
+      '.resultado-bicicleta',
+      '.resultado',
+      '.listado-bicicletas > div',
+      '.grid > div[class*="col"]',
+      '.bicycles-list > div',
+      '.bike-list > div',
+    ];
+    
+    let $cards = $();
+    let matchedSelector: string | null = null;
+    
+    for (const selector of cardSelectors) {
+      $cards = $(selector);
+      if ($cards.length > 0) {
+        matchedSelector = selector;
+        console.log(`Found ${$cards.length} bicycles using selector: ${selector}`);
+        break;
+      }
+    }
+    
+    // If no cards found with specific selectors, try to find any repeated structure
+    if ($cards.length === 0) {
+      // Look for table rows
+      const $rows = $('table tbody tr, .table tbody tr');
+      if ($rows.length > 0) {
+        $cards = $rows;
+        matchedSelector = 'table tbody tr';
+        console.log(`Found ${$cards.length} bicycles in table rows`);
+      }
+    }
+    
+    $cards.each((index, element) => {
+      const $card = $(element);
+      
+      try {
+        // Extract data - try multiple patterns
+        const marca = extractText($card, ['.marca', '[data-marca]', 'strong:contains("Marca")', '.brand', 'dt:contains("Marca") + dd']) || '';
+        const modelo = extractText($card, ['.modelo', '[data-modelo]', '.model', 'dt:contains("Modelo") + dd']) || '';
+        const color = extractText($card, ['.color', '[data-color]', 'dt:contains("Color") + dd']) || '';
+        const numeroSerie = extractText($card, ['.numero-serie', '[data-numero-serie]', '.serial-number', 'dt:contains("Serie") + dd']) || undefined;
+        const numeroMatricula = extractText($card, ['.numero-matricula', '[data-numero-matricula]', '.registration', 'dt:contains("Matrícula") + dd']) || undefined;
+        const ciudad = extractText($card, ['.ciudad', '[data-ciudad]', '.city', 'dt:contains("Ciudad") + dd']) || undefined;
+        const provincia = extractText($card, ['.provincia', '[data-provincia]', '.province', 'dt:contains("Provincia") + dd']) || undefined;
+        const descripcion = extractText($card, ['.descripcion', '[data-descripcion]', '.description', 'p', 'dt:contains("Descripción") + dd']) || undefined;
+        
+        // Extract image URL
+        const imagen = extractImage($card, ['img.imagen', 'img.foto', 'img.bicicleta', 'img', '[data-imagen]']) || undefined;
+        
+        // Extract dates
+        const fechaRobo = extractText($card, ['.fecha-robo', '[data-fecha-robo]', 'dt:contains("Robo") + dd', 'dt:contains("Fecha de robo") + dd']) || undefined;
+        const fechaLocalizacion = extractText($card, ['.fecha-localizacion', '[data-fecha-localizacion]', 'dt:contains("Localización") + dd', 'dt:contains("Fecha de localización") + dd']) || undefined;
+        
+        // Derive a stable ID from the detail link, the image or the card content
+        const fichaLink = extractFichaUrl($card);
+        const id = stableBicycleId({
+          fichaUrl: fichaLink,
+          imagen,
+          marca,
+          modelo,
+          color,
+          numeroSerie,
+          fechaLocalizacion,
+          deposito: ciudad,
+          estado,
+        });
+        
+        // Only add if we have at least brand or model
+        if (marca || modelo) {
+          const bicycle: Bicycle = {
+            id,
+            marca,
+            modelo,
+            color,
+            numeroSerie,
+            numeroMatricula,
+            ciudad,
+            provincia,
+            descripcion,
+            imagen: imagen ? proxiedImageUrl(imagen) : '/images/bicicletas/placeholder.svg',
+            imagenCompleta: imagen ? proxiedImageUrl(imagen) : '/images/bicicletas/placeholder.svg',
+            estado,
+            fechaRobo: isoDate(fechaRobo),
+            fechaLocalizacion: isoDate(fechaLocalizacion),
+            fichaUrl: resolveFichaUrl(fichaLink, false),
+          };
+          
+          bicycles.push(bicycle);
+        }
+      } catch (err) {
+        console.error(`Error parsing bicycle at index ${index}:`, err);
+      }
+    });
+    
+    selector = matchedSelector;
+    console.log(`Parsed ${bicycles.length} bicycles from HTML`);
+    
+  } catch (error) {
+    console.error('Error parsing HTML:', error);
+  }
+  
+  return { bicycles, hasNextPage, selector };
+}
+
+
+async function search(filters: SearchFilters, page: number): Promise<SourcePage> {
+  const [listado] = listadosForTipo(filters.tipo);
+  const result = await fetchBicyclesPage(filters, page, listado);
+  return { bicycles: result.bicycles, hasMore: result.hasNextPage };
+}
+
+async function health(): Promise<SourceHealth> {
+  const startedAt = Date.now();
+
+  try {
+    const response = await upstreamFetch(LISTADOS.localizadas.htmlUrl, {
+      method: 'HEAD',
+      timeoutMs: SCRAPING_TIMEOUT_MS,
+    });
+    return {
+      name: htmlSource.name,
+      ok: response.ok,
+      latencyMs: Date.now() - startedAt,
+      message: response.ok ? undefined : `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return { name: htmlSource.name, ok: false, latencyMs: Date.now() - startedAt, message: (error as Error).message };
+  }
+}
+
+export const htmlSource: BicycleSource = {
+  name: 'html',
+  maxPages: MAX_SCRAPING_PAGES,
+  search,
+  getById: (id: string): Promise<Bicycle | null> => findByIdInListing(htmlSource, id),
+  health,
+};
@@ -0,0 +1,240 @@
+import type { Bicycle, SearchFilters } from '@/types/bicycle';
+import { filterBicycles } from '@/lib/search';
+import type { BicycleSource, SourceHealth, SourcePage } from '@/lib/sources/types';
+
+// Mock data for development purposes. Enable it with BICYCLE_SOURCES=mock.
+// Note: Uses local placeholder images as fallback when biciregistro.es is not accessible
+const MOCK_BICYCLES: Bicycle[] = [
+  {
+    id: '1',
+    marca: 'Trek',
+    modelo: 'FX 3',
+    color: 'Azul',
+    numeroSerie: 'TRK123456',
+    numeroMatricula: 'MAD-001',
+    fechaRobo: '2024-01-15',
+    lugarRobo: 'Calle Mayor 45',
+    ciudad: 'Madrid',
+    provincia: 'Madrid',
+    descripcion: 'Bicicleta de paseo con cesta delantera y luces LED',
+    imagen: '/images/bicicletas/placeholder.svg',
+    imagenCompleta: '/images/bicicletas/placeholder.svg',
+    estado: 'localizada',
+    fechaLocalizacion: '2024-02-20',
+    lugarLocalizacion: 'Parque del Retiro',
+  },
+  {
+    id: '2',
+    marca: 'Orbea',
+    modelo: 'Orca M30',
+    color: 'Rojo',
+    numeroSerie: 'ORB789012',
+    numeroMatricula: 'BCN-023',
+    fechaRobo: '2024-02-10',
+    lugarRobo: 'Paseo de Gracia',
+    ciudad: 'Barcelona',
+    provincia: 'Barcelona',
+    descripcion: 'Bicicleta de carretera, componentes Shimano 105',
+    imagen: '/images/bicicletas/placeholder.svg',
+    imagenCompleta: '/images/bicicletas/placeholder.svg',
+    estado: 'localizada',
+    fechaLocalizacion: '2024-03-01',
+    lugarLocalizacion: 'Estación de Sants',
+  },
+  {
+    id: '3',
+    marca: 'Specialized',
+    modelo: 'Rockhopper',
+    color: 'Negro',
+    numeroSerie: 'SPZ345678',
+    numeroMatricula: 'VAL-015',
+    fechaRobo: '2024-01-25',
+    lugarRobo: 'Ciudad de las Artes',
+    ciudad: 'Valencia',
+    provincia: 'Valencia',
+    descripcion: 'Mountain bike con suspensión delantera',
+    imagen: '/images/bicicletas/placeholder.svg',
+    imagenCompleta: '/images/bicicletas/placeholder.svg',
+    estado: 'localizada',
+    fechaLocalizacion: '2024-02-15',
+    lugarLocalizacion: 'Jardín del Turia',
+  },
+  {
+    id: '4',
+    marca: 'Giant',
+    modelo: 'Escape 2',
+    color: 'Verde',
+    numeroSerie: 'GNT901234',
+    numeroMatricula: 'SEV-008',
+    fechaRobo: '2024-03-05',
+    lugarRobo: 'Plaza de España',
+    ciudad: 'Sevilla',
+    provincia: 'Sevilla',
+    descripcion: 'Bicicleta híbrida, perfecta para ciudad',
+    imagen: '/images/bicicletas/placeholder.svg',
+    imagenCompleta: '/images/bicicletas/placeholder.svg',
+    estado: 'localizada',
+    fechaLocalizacion: '2024-03-20',
+    lugarLocalizacion: 'Parque de María Luisa',
+  },
+  {
+    id: '5',
+    marca: 'BH',
+    modelo: 'Atom City',
+    color: 'Blanco',
+    numeroSerie: 'BH567890',
+    numeroMatricula: 'BIL-012',
+    fechaRobo: '2024-02-28',
+    lugarRobo: 'Gran Vía',
+    ciudad: 'Bilbao',
+    provincia: 'Vizcaya',
+    descripcion: 'Bicicleta urbana con cambios internos Shimano',
+    imagen: '/images/bicicletas/placeholder.svg',
+    imagenCompleta: '/images/bicicletas/placeholder.svg',
+    estado: 'localizada',
+    fechaLocalizacion: '2024-03-15',
+    lugarLocalizacion: 'Museo Guggenheim',
+  },
+  {
+    id: '6',
+    marca: 'Cannondale',
+    modelo: 'Trail 5',
+    color: 'Gris',
+    numeroSerie: 'CAN234567',
+    numeroMatricula: 'ZAR-019',
+    fechaRobo: '2024-01-30',
+    lugarRobo: 'Paseo Independencia',
+    ciudad: 'Zaragoza',
+    provincia: 'Zaragoza',
+    descripcion: 'MTB con frenos de disco hidráulicos',
+    imagen: '/images/bicicletas/placeholder.svg',
+    imagenCompleta: '/images/bicicletas/placeholder.svg',
+    estado: 'localizada',
+    fechaLocalizacion: '2024-02-25',
+    lugarLocalizacion: 'Parque Grande',
+  },
+  {
+    id: '7',
+    marca: 'Scott',
+    modelo: 'Sub Cross 20',
+    color: 'Naranja',
+    numeroSerie: 'SCT445566',
+    numeroMatricula: 'MAL-034',
+    fechaRobo: '2024-02-18',
+    lugarRobo: 'Muelle Uno',
+    ciudad: 'Málaga',
+    provincia: 'Málaga',
+    descripcion: 'Bicicleta híbrida con portaequipajes',
+    imagen: '/images/bicicletas/placeholder.svg',
+    imagenCompleta: '/images/bicicletas/placeholder.svg',
+    estado: 'localizada',
+    fechaLocalizacion: '2024-03-10',
+    lugarLocalizacion: 'Playa de la Malagueta',
+  },
+  {
+    id: '8',
+    marca: 'Merida',
+    modelo: 'Big Nine 100',
+    color: 'Verde y Negro',
+    numeroSerie: 'MRD778899',
+    numeroMatricula: 'ALI-021',
+    fechaRobo: '2024-01-22',
+    lugarRobo: 'Explanada de España',
+    ciudad: 'Alicante',
+    provincia: 'Alicante',
+    descripcion: 'MTB 29 pulgadas, cuadro de aluminio',
+    imagen: '/images/bicicletas/placeholder.svg',
+    imagenCompleta: '/images/bicicletas/placeholder.svg',
+    estado: 'localizada',
+    fechaLocalizacion: '2024-02-28',
+    lugarLocalizacion: 'Castillo de Santa Bárbara',
+  },
+  {
+    id: '9',
+    marca: 'Cube',
+    modelo: 'Touring Hybrid',
+    color: 'Azul y Plata',
+    numeroSerie: 'CUB990011',
+    numeroMatricula: 'VLL-017',
+    fechaRobo: '2024-03-01',
+    lugarRobo: 'Campo Grande',
+    ciudad: 'Valladolid',
+    provincia: 'Valladolid',
+    descripcion: 'Bicicleta eléctrica de trekking, batería 500Wh',
+    imagen: '/images/bicicletas/placeholder.svg',
+    imagenCompleta: '/images/bicicletas/placeholder.svg',
+    estado: 'localizada',
+    fechaLocalizacion: '2024-03-22',
+    lugarLocalizacion: 'Plaza Mayor',
+  },
+  {
+    id: '10',
+    marca: 'Radon',
+    modelo: 'Sunset 8.0',
+    color: 'Negro y Rojo',
+    numeroSerie: 'RDN112233',
+    numeroMatricula: 'COR-029',
+    fechaRobo: '2024-02-05',
+    lugarRobo: 'Mezquita-Catedral',
+    ciudad: 'Córdoba',
+    provincia: 'Córdoba',
+    descripcion: 'Bicicleta de carretera, grupo Shimano Tiagra',
+    imagen: '/images/bicicletas/placeholder.svg',
+    imagenCompleta: '/images/bicicletas/placeholder.svg',
+    estado: 'localizada',
+    fechaLocalizacion: '2024-03-05',
+    lugarLocalizacion: 'Puente Romano',
+  },
+  {
+    id: '11',
+    marca: 'Kona',
+    modelo: 'Dew Plus',
+    color: 'Turquesa',
+    numeroSerie: 'KON334455',
+    numeroMatricula: 'GRA-041',
+    fechaRobo: '2024-01-28',
+    lugarRobo: 'Carrera del Darro',
+    ciudad: 'Granada',
+    provincia: 'Granada',
+    descripcion: 'Bicicleta urbana con guardabarros y luces integradas',
+    imagen: '/images/bicicletas/placeholder.svg',
+    imagenCompleta: '/images/bicicletas/placeholder.svg',
+    estado: 'localizada',
+    fechaLocalizacion: '2024-02-18',
+    lugarLocalizacion: 'Paseo de los Tristes',
+  },
+  {
+    id: '12',
+    marca: 'Lapierre',
+    modelo: 'Sensium 300',
+    color: 'Blanco y Azul',
+    numeroSerie: 'LAP556677',
+    numeroMatricula: 'MUR-013',
+    fechaRobo: '2024-02-12',
+    lugarRobo: 'Gran Vía Escultor Salzillo',
+    ciudad: 'Murcia',
+    provincia: 'Murcia',
+    descripcion: 'Bicicleta de carretera endurance, carbono',
+    imagen: '/images/bicicletas/placeholder.svg',
+    imagenCompleta: '/images/bicicletas/placeholder.svg',
+    estado: 'localizada',
+    fechaLocalizacion: '2024-03-08',
+    lugarLocalizacion: 'Jardín del Malecón',
+  },
+];
+
+async function search(filters: SearchFilters, page: number): Promise<SourcePage> {
+  return { bicycles: page === 1 ? filterBicycles(MOCK_BICYCLES, filters) : [], hasMore: false };
+}
+
+async function health(): Promise<SourceHealth> {
+  return { name: mockSource.name, ok: true, latencyMs: 0 };
+}
+
+export const mockSource: BicycleSource = {
+  name: 'mock',
+  maxPages: 1,
+  search,
+  getById: async (id: string) => MOCK_BICYCLES.find(bicycle => bicycle.id === id) || null,
+  health,
+};
@@ -0,0 +1,395 @@
+import type { Bicycle, SearchFilters } from '@/types/bicycle';
+import * as cheerio from 'cheerio';
+import { existsSync } from 'fs';
+import { chromium, type Page } from 'playwright';
+import { filterBicycles } from '@/lib/search';
+import { isoDate } from '@/lib/dates';
+import { classifyError } from '@/lib/apiErrors';
+import { recordSourceAttempt } from '@/lib/sources/diagnostics';
+import { withBrowserPage } from '@/lib/sources/browserPool';
+import { isListingApiRequest, saveApiSession } from '@/lib/sources/apiSession';
+import { permitNavigation } from '@/lib/upstream';
+import { proxiedImageUrl } from '@/lib/proxyImage';
+import type { BicycleSource, SourceHealth, SourcePage } from '@/lib/sources/types';
+import {
+  LISTADOS,
+  extractFichaUrl,
+  extractImage,
+  extractText,
+  findByIdInListing,
+  listadosForTipo,
+  resolveFichaUrl,
+  stableBicycleId,
+  type Listado,
+} from '@/lib/sources/shared';
+
+// Strategy 2: Use Playwright to render the SPA and scrape data, following
+// its paginator. While the SPA loads, the session it sends to the REST API is
+// captured for the REST source.
+
+const MAX_SPA_PAGES = 20;
+const CARD_SELECTOR = '.bicicleta-card, .bicycle-card, table tbody tr, [data-bicycle], [data-bicicleta]';
+
+// "Next page" controls of the paginators the SPA may use (ngx-pagination,
+// Bootstrap, Angular Material); disabled ones are left out
+const NEXT_PAGE_SELECTORS = [
+  '.pagination-next:not(.disabled) a',
+  '.page-item:not(.disabled) a[aria-label="Next"]',
+  '.page-item:not(.disabled) a[aria-label="Siguiente"]',
+  'button.mat-paginator-navigation-next:not([disabled])',
+  'button.mat-mdc-paginator-navigation-next:not([disabled])',
+  'button[aria-label="Siguiente"]:not([disabled])',
+  'li:not(.disabled) > a:text-is("Siguiente")',
+  'li:not(.disabled) > a:text-is("»")',
+];
+
+// Click the next page of the paginator. Returns false on the last page.
+async function goToNextPage(page: Page): Promise<boolean> {
+  const next = page.locator(NEXT_PAGE_SELECTORS.join(', ')).first();
+  if (await next.count() === 0) return false;
+
+  try {
+    // The requests the click makes the SPA send are checked by routeApiRequests
+    await next.click({ timeout: 5000 });
+    await page.waitForLoadState('networkidle', { timeout: 15000 });
+    return true;
+  } catch (error) {
+    console.log('Could not move to the next page:', (error as Error).message);
+    return false;
+  }
+}
+
+// Scrape the rendered page and every following page of the paginator
+async function scrapeAllPages(page: Page, estado: string): Promise<{ bicycles: Bicycle[]; selector: string | null }> {
+  const bicycles: Bicycle[] = [];
+  const seen = new Set<string>();
+  let firstSelector: string | null = null;
+
+  for (let pageNumber = 1; pageNumber <= MAX_SPA_PAGES; pageNumber++) {
+    // Wait for bicycle data to load - look for bicycle cards or table rows
+    try {
+      await page.waitForSelector(CARD_SELECTOR, { timeout: 15000 });
+    } catch (e) {
+      console.log('No bicycle cards found, trying to extract from page content anyway...');
+    }
+
+    // Wait a bit longer for any lazy-loaded content
+    await page.waitForTimeout(pageNumber === 1 ? 2000 : 1000);
+
+    const { bicycles: pageBicycles, selector } = parseRenderedListing(await page.content(), estado);
+    if (pageNumber === 1) firstSelector = selector;
+
+    // Nothing new: the paginator did not move (or the page is empty)
+    const fresh = pageBicycles.filter(bicycle => !seen.has(bicycle.id));
+    if (fresh.length === 0) break;
+    fresh.forEach(bicycle => seen.add(bicycle.id));
+    bicycles.push(...fresh);
+    console.log(`SPA page ${pageNumber} added ${fresh.length} bicycles (total: ${bicycles.length})`);
+
+    if (!(await goToNextPage(page))) break;
+  }
+
+  return { bicycles, selector: firstSelector };
+}
+
+// Send the XHR / fetch requests the SPA makes to the registry through the
+// robots.txt check and the shared rate limit, like the page loads; refused
+// ones are aborted. The scripts, styles and images of the page are left
+// alone: they belong to the page load that was already let through.
+async function routeApiRequests(page: Page): Promise<void> {
+  await page.route(url => /(^|\.)biciregistro\.es$/i.test(url.hostname), async route => {
+    const request = route.request();
+    if (!['xhr', 'fetch'].includes(request.resourceType())) {
+      await route.continue();
+      return;
+    }
+
+    try {
+      await permitNavigation(request.url());
+    } catch (error) {
+      console.log(`Blocked ${request.url()}:`, (error as Error).message);
+      await route.abort('blockedbyclient');
+      return;
+    }
+    await route.continue();
+  });
+}
+
+// Render the SPA of one listing and scrape every page of it
+async function scrapeListing(filters: SearchFilters, listado: Listado): Promise<Bicycle[]> {
+  const { estado, spaUrl: url } = LISTADOS[listado];
+  const startedAt = Date.now();
+  let httpStatus: number | undefined;
+  try {
+    await permitNavigation(url);
+    const { bicycles, selector } = await withBrowserPage(async page => {
+      await routeApiRequests(page);
+      page.on('request', request => {
+        if (!isListingApiRequest(request.url())) return;
+        request.allHeaders()
+          .then(headers => saveApiSession(request.url(), headers))
+          .catch(() => undefined);
+      });
+
+      // Navigate to the SPA URL
+      console.log(`Navigating to ${url}...`);
+      const response = await page.goto(url, {
+        waitUntil: 'networkidle',
+        timeout: 30000
+      });
+      httpStatus = response?.status();
+
+      return scrapeAllPages(page, estado);
+    });
+
+    recordSourceAttempt(playwrightSource.name, url, {
+      ok: true,
+      latencyMs: Date.now() - startedAt,
+      httpStatus,
+      selector,
+      itemCount: bicycles.length,
+    });
+    
+    // Apply filters if any
+    const filtered = filterBicycles(bicycles, filters);
+    
+    console.log(`After applying filters: ${filtered.length} bicycles`);
+    return filtered;
+    
+  } catch (error) {
+    console.error('Playwright scraping error:', error);
+    recordSourceAttempt(playwrightSource.name, url, {
+      ok: false,
+      latencyMs: Date.now() - startedAt,
+      httpStatus,
+      itemCount: 0,
+      error: (error as Error).message,
+      code: classifyError(error),
+    });
+    throw error;
+  }
+}
+
+
+// Parse the bicycles of a rendered listing page (cards or table rows) and
+// report the card selector that matched (null when none did)
+export function parseRenderedListing(content: string, estado: string): { bicycles: Bicycle[]; selector: string | null } {
+  const $ = cheerio.load(content);
+  const bicycles: Bicycle[] = [];
+  
+  // Try multiple selectors to find bicycle data
+  const cardSelectors = [
+    '.bicicleta-card',
+    '.bicycle-card',
+    '.bike-item',
+    '.bicicleta-item',
+    'article.bicicleta',
+    '.card.bicicleta',
+    '[data-bicicleta]',
+    '[data-bicycle]',
+    '.resultado-bicicleta',
+    '.resultado',
+    'table tbody tr',
+  ];
+  
+  let $cards = $();
+  let usedSelector = '';
+  
+  for (const selector of cardSelectors) {
+    $cards = $(selector);
+    if ($cards.length > 0) {
+      usedSelector = selector;
+      console.log(`Found ${$cards.length} bicycles using selector: ${selector}`);
+      break;
+    }
+  }
+  
+  if ($cards.length === 0) {
+    console.log('No bicycle data found in rendered page');
+    return { bicycles: [], selector: null };
+  }
+  
+  // Extract bicycle data from each card
+  $cards.each((index, element) => {
+    const $card = $(element);
+    
+    try {
+      let marca = '', modelo = '', color = '', tipo = '', imagen = undefined;
+      let fechaLocalizacion = undefined, deposito = undefined;
+      let fechaRobo = undefined, lugarRobo = undefined;
+      
+      // If it's a table row, extract data from all cells  
+      if (usedSelector.includes('tbody tr')) {
+        const cells = $card.find('td');
+        if (cells.length > 0) {
+          // First cell typically has image
+          imagen = extractImage($(cells[0]), ['img']) || undefined;
+          
+          // Get all text from the row
+          const rowText = $card.text();
+          
+          // Extract fields using regex patterns
+          const marcaMatch = rowText.match(/Marca\s*[:\*]\s*([^\n]+)/);
+          if (marcaMatch) {
+            let rawMarca = marcaMatch[1];
+            // Don't use marca if it says "No existe en lista"
+            if (!rawMarca.includes('No existe en lista')) {
+              marca = rawMarca.replace(/Modelo/g, '').trim();
+            }
+          }
+          
+          const modeloMatch = rowText.match(/Modelo\s*[:\*]\s*([^\n]+)/);
+          if (modeloMatch) {
+            let rawModelo = modeloMatch[1];
+            // Don't use modelo if it says "SIN"
+            if (!rawModelo.toUpperCase().includes('SIN')) {
+              modelo = rawModelo.replace(/Tipo/g, '').trim();
+            }
+          }
+          
+          const tipoMatch = rowText.match(/Tipo\s*[:\*]\s*([^\n]+)/);
+          if (tipoMatch) {
+            tipo = tipoMatch[1].replace(/Color/g, '').trim();
+          }
+          
+          const colorMatch = rowText.match(/Color\s*[:\*]\s*([^\n]+)/);
+          if (colorMatch) {
+            color = colorMatch[1].replace(/Fecha/g, '').trim();
+          }
+          
+          const fechaMatch = rowText.match(/Fecha localización\s*[:\*]?\s*([^\n]+)/);
+          if (fechaMatch) {
+            const fecha = fechaMatch[1].replace(/Deposito/g, '').trim();
+            if (fecha && fecha.length > 0 && fecha.length < 50) {
+              fechaLocalizacion = fecha;
+            }
+          }
+          
+          // Missing-bike listings show the theft date and place instead
+          const fechaRoboMatch = rowText.match(/Fecha (?:desaparición|robo)\s*[:\*]?\s*([^\n]+)/i);
+          if (fechaRoboMatch) {
+            const fecha = fechaRoboMatch[1].replace(/Lugar/g, '').trim();
+            if (fecha && fecha.length < 50) {
+              fechaRobo = fecha;
+            }
+          }
+          
+          const lugarMatch = rowText.match(/Lugar\s*[:\*]?\s*([^\n]+)/);
+          if (lugarMatch) {
+            const lugar = lugarMatch[1].replace(/Ver ficha/gi, '').replace(/\s+/g, ' ').trim();
+            if (lugar && lugar.length < 100) {
+              lugarRobo = lugar;
+            }
+          }
+          
+          const depositoMatch = rowText.match(/Deposito\s*[:\*]?\s*([^\s]+(?:\s+[^\s]+)*?)(?:\s{2,}|\n|$)/);
+          if (depositoMatch) {
+            let cleanDeposito = depositoMatch[1]
+              .replace(/Ver ficha/gi, '')
+              .replace(/\n+/g, ' ')
+              .replace(/\s+/g, ' ')
+              .trim();
+            if (cleanDeposito && cleanDeposito.length > 0 && cleanDeposito.length < 100) {
+              deposito = cleanDeposito;
+            }
+          }
+        }
+      } else {
+        // For non-table structures, use the original extraction logic
+        marca = extractText($card, ['.marca', '[data-marca]', 'strong:contains("Marca")', '.brand', 'dt:contains("Marca") + dd']) || '';
+        modelo = extractText($card, ['.modelo', '[data-modelo]', '.model', 'dt:contains("Modelo") + dd']) || '';
+        color = extractText($card, ['.color', '[data-color]', 'dt:contains("Color") + dd']) || '';
+        imagen = extractImage($card, ['img.imagen', 'img.foto', 'img.bicicleta', 'img', '[data-imagen]']) || undefined;
+      }
+      
+      const numeroSerie = extractText($card, ['.numero-serie', '[data-numero-serie]', '.serial-number', 'dt:contains("Serie") + dd']) || undefined;
+      const numeroMatricula = extractText($card, ['.numero-matricula', '[data-numero-matricula]', '.registration', 'dt:contains("Matrícula") + dd']) || undefined;
+      const ciudadFinal = deposito || extractText($card, ['.ciudad', '[data-ciudad]', '.city', 'dt:contains("Ciudad") + dd']) || undefined;
+      const provincia = extractText($card, ['.provincia', '[data-provincia]', '.province', 'dt:contains("Provincia") + dd']) || undefined;
+      const descripcionFinal = tipo || extractText($card, ['.descripcion', '[data-descripcion]', '.description', 'p', 'dt:contains("Descripción") + dd']) || undefined;
+      
+      // Extract dates (they may already be set from table parsing)
+      if (!fechaRobo) {
+        fechaRobo = extractText($card, ['.fecha-robo', '[data-fecha-robo]', 'dt:contains("Robo") + dd', 'dt:contains("Fecha de robo") + dd']) || undefined;
+      }
+      if (!fechaLocalizacion) {
+        fechaLocalizacion = extractText($card, ['.fecha-localizacion', '[data-fecha-localizacion]', 'dt:contains("Localización") + dd', 'dt:contains("Fecha de localización") + dd']) || undefined;
+      }
+      
+      // Derive a stable ID from the "Ver ficha" link, the image or the row content
+      const fichaLink = extractFichaUrl($card);
+      const id = stableBicycleId({
+        fichaUrl: fichaLink,
+        imagen,
+        marca,
+        modelo,
+        color,
+        numeroSerie,
+        fechaLocalizacion,
+        deposito: ciudadFinal,
+        estado,
+      });
+      
+      // Add bike if we have image or any useful data (be more permissive)
+      if (imagen || marca || modelo || descripcionFinal || ciudadFinal) {
+        const bicycle: Bicycle = {
+          id,
+          marca: marca || 'Desconocida',
+          modelo: modelo || 'Desconocido',
+          color: color || '',
+          numeroSerie,
+          numeroMatricula,
+          ciudad: ciudadFinal,
+          provincia,
+          descripcion: descripcionFinal,
+          imagen: imagen ? proxiedImageUrl(imagen) : '/images/bicicletas/placeholder.svg',
+          imagenCompleta: imagen ? proxiedImageUrl(imagen) : '/images/bicicletas/placeholder.svg',
+          estado,
+          fechaRobo: isoDate(fechaRobo),
+          lugarRobo,
+          fechaLocalizacion: isoDate(fechaLocalizacion),
+          deposito,
+          fichaUrl: resolveFichaUrl(fichaLink, true),
+        };
+        
+        bicycles.push(bicycle);
+      }
+    } catch (err) {
+      console.error(`Error parsing bicycle at index ${index}:`, err);
+    }
+  });
+  
+  console.log(`Successfully extracted ${bicycles.length} bicycles from rendered SPA`);
+  return { bicycles, selector: usedSelector };
+}
+
+// The paginator is walked within a single rendering, so everything is page 1
+async function search(filters: SearchFilters, page: number): Promise<SourcePage> {
+  if (page > 1) return { bicycles: [], hasMore: false };
+
+  const [listado] = listadosForTipo(filters.tipo);
+  return { bicycles: await scrapeListing(filters, listado), hasMore: false };
+}
+
+// Launching a browser is too expensive for a health check: only check that
+// the Chromium build Playwright needs is installed
+async function health(): Promise<SourceHealth> {
+  const startedAt = Date.now();
+  const executable = chromium.executablePath();
+  const ok = existsSync(executable);
+
+  return {
+    name: playwrightSource.name,
+    ok,
+    latencyMs: Date.now() - startedAt,
+    message: ok ? undefined : `Chromium not installed at ${executable}`,
+  };
+}
+
+export const playwrightSource: BicycleSource = {
+  name: 'playwright',
+  maxPages: 1,
+  search,
+  getById: (id: string): Promise<Bicycle | null> => findByIdInListing(playwrightSource, id),
+  health,
+};
@@ -0,0 +1,101 @@
+import type { ApiError, Bicycle, SearchFilters } from '@/types/bicycle';
+import type { BicycleSource, SourceHealth } from '@/lib/sources/types';
+import { collectAllPages, dedupeBicycles, listadosForTipo, type Listado } from '@/lib/sources/shared';
+import { restSource } from '@/lib/sources/rest';
+import { playwrightSource } from '@/lib/sources/playwright';
+import { htmlSource } from '@/lib/sources/html';
+import { mockSource } from '@/lib/sources/mock';
+import { failureSince } from '@/lib/sources/diagnostics';
+import { apiError } from '@/lib/apiErrors';
+
+// Registry of bicycle data sources. BICYCLE_SOURCES sets which sources are
+// used and in which order (comma separated), e.g. "rest,html" or "mock".
+
+const DEFAULT_SOURCES = 'rest,playwright,html';
+
+const sources = new Map<string, BicycleSource>(
+  [restSource, playwrightSource, htmlSource, mockSource].map(source => [source.name, source])
+);
+
+// Add a source (e.g. another regional registry). It is only used when listed in BICYCLE_SOURCES.
+export function registerSource(source: BicycleSource): void {
+  sources.set(source.name, source);
+}
+
+// Enabled sources, in cascade order
+export function getSources(): BicycleSource[] {
+  const names = (process.env.BICYCLE_SOURCES || DEFAULT_SOURCES)
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  return names.flatMap(name => {
+    const source = sources.get(name);
+    if (!source) console.warn(`Unknown bicycle source "${name}" in BICYCLE_SOURCES`);
+    return source ? [source] : [];
+  });
+}
+
+export interface SourcesSearch {
+  bicycles: Bicycle[];
+  // Source that supplied each listing, null when every source failed for it
+  sources: Partial<Record<Listado, string | null>>;
+  failure?: ApiError; // Why the sources failed, when a listing got no bicycles
+}
+
+// Fetch every listing selected by filters.tipo. Each listing is taken from the
+// first source that returns bicycles for it; the others are fallbacks.
+export async function searchSources(filters: SearchFilters): Promise<SourcesSearch> {
+  const allBicycles: Bicycle[] = [];
+  const usedSources: SourcesSearch['sources'] = {};
+  const startedAt = new Date().toISOString();
+
+  for (const listado of listadosForTipo(filters.tipo)) {
+    console.log(`Starting to fetch ${listado} bicycles...`);
+    usedSources[listado] = null;
+
+    for (const source of getSources()) {
+      try {
+        const bicycles = await collectAllPages(source, { ...filters, tipo: listado });
+        if (bicycles.length > 0) {
+          console.log(`✓ Fetched ${bicycles.length} ${listado} bicycles from ${source.name}`);
+          allBicycles.push(...dedupeBicycles(bicycles));
+          usedSources[listado] = source.name;
+          break;
+        }
+        console.log(`${source.name} returned no ${listado} bicycles, trying next source...`);
+      } catch (error) {
+        console.log(`${source.name} failed for ${listado}:`, (error as Error).message);
+      }
+    }
+
+    if (!usedSources[listado]) console.log(`All sources exhausted for ${listado} - no bicycles`);
+  }
+
+  if (!Object.values(usedSources).includes(null)) {
+    return { bicycles: allBicycles, sources: usedSources };
+  }
+
+  const failure = failureSince(getSources().map(source => source.name), startedAt)
+    || apiError('UPSTREAM_UNAVAILABLE', 'No source returned bicycles');
+  return { bicycles: allBicycles, sources: usedSources, failure };
+}
+
+// Look a bicycle up in the sources, in cascade order
+export async function findBicycleById(id: string): Promise<Bicycle | null> {
+  for (const source of getSources()) {
+    try {
+      const bicycle = await source.getById(id);
+      if (bicycle) return bicycle;
+    } catch (error) {
+      console.log(`${source.name} lookup of ${id} failed:`, (error as Error).message);
+    }
+  }
+  return null;
+}
+
+export function checkSourcesHealth(): Promise<SourceHealth[]> {
+  return Promise.all(getSources().map(source =>
+    source.health().catch((error: Error) => ({ name: source.name, ok: false, latencyMs: 0, message: error.message }))
+  ));
+}
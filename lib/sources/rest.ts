@@ -0,0 +1,261 @@
+import type { Bicycle, SearchFilters } from '@/types/bicycle';
+import type { BicycleSource, SourceHealth, SourcePage } from '@/lib/sources/types';
+import { isoDate } from '@/lib/dates';
+import { classifyError, httpErrorCode, parseRetryAfter } from '@/lib/apiErrors';
+import { recordSourceAttempt } from '@/lib/sources/diagnostics';
+import { clearApiSession, getApiSession } from '@/lib/sources/apiSession';
+import { upstreamFetch, type UpstreamInit } from '@/lib/upstream';
+import { proxiedImageUrl } from '@/lib/proxyImage';
+import { LISTADOS, findByIdInListing, listadosForTipo, stableBicycleId, type Listado } from '@/lib/sources/shared';
+
+// Strategy 1: the REST API behind the biciregistro.es SPA, with the session
+// the SPA used when the Playwright source captured one (see apiSession.ts)
+
+const BASE_URL = 'https://www.biciregistro.es/biciregistro/rest';
+const MAX_API_PAGES = 10;
+const API_TIMEOUT_MS = 10000;
+
+type Method = 'POST' | 'GET';
+
+interface Endpoint {
+  endpoint: string;
+  method: Method;
+}
+
+// Endpoint and method that answered for each listing, so later pages skip the probing
+const workingEndpoints = new Map<Listado, Endpoint>();
+
+function requestFor(filters: SearchFilters, { endpoint, method }: Endpoint, page: number): { url: string; init: UpstreamInit } {
+  const init: UpstreamInit = {
+    method,
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+      'Origin': 'https://www.biciregistro.es',
+      'Referer': 'https://www.biciregistro.es/',
+      ...getApiSession()?.headers,
+    },
+    timeoutMs: API_TIMEOUT_MS,
+  };
+
+  if (method === 'POST') {
+    init.body = JSON.stringify({
+      pageNumber: page,
+      pageSize: 100,
+      // Include search filters
+      ...(filters.marca && { marca: filters.marca }),
+      ...(filters.marcaId && { idMarca: filters.marcaId }),
+      ...(filters.modelo && { modelo: filters.modelo }),
+      ...(filters.color && { color: filters.color }),
+      ...(filters.colorId && { idColor: filters.colorId }),
+      ...(filters.ciudad && { ciudad: filters.ciudad }),
+      ...(filters.provincia && { provincia: filters.provincia }),
+      ...(filters.numeroSerie && { numeroSerie: filters.numeroSerie }),
+      ...(filters.numeroMatricula && { numeroMatricula: filters.numeroMatricula }),
+    });
+  }
+
+  const url = method === 'GET' && page > 0
+    ? `${BASE_URL}${endpoint}?page=${page}&size=100`
+    : `${BASE_URL}${endpoint}`;
+
+  return { url, init };
+}
+
+// Fetch one page from one endpoint. Returns null when the endpoint does not answer.
+async function fetchPage(filters: SearchFilters, listado: Listado, endpoint: Endpoint, page: number): Promise<SourcePage | null> {
+  const { url, init } = requestFor(filters, endpoint, page);
+  const target = `${endpoint.method} ${endpoint.endpoint}`;
+  const startedAt = Date.now();
+  let httpStatus: number | undefined;
+
+  try {
+    const response = await upstreamFetch(url, init);
+    httpStatus = response.status;
+
+    if (!response.ok) {
+      if (response.status === 401 || response.status === 403) {
+        console.log(`Endpoint ${endpoint.endpoint} requires authentication (${response.status})`);
+        // The endpoint the session came from rejects it: it expired, and the
+        // next rendering of the SPA captures a new one
+        if (getApiSession()?.endpoint.endsWith(endpoint.endpoint)) clearApiSession();
+      } else {
+        console.log(`Endpoint ${endpoint.endpoint} (${endpoint.method}) returned ${response.status}`);
+      }
+      recordSourceAttempt(restSource.name, target, {
+        ok: false,
+        latencyMs: Date.now() - startedAt,
+        httpStatus,
+        itemCount: 0,
+        error: `HTTP ${response.status}`,
+        code: httpErrorCode(response.status),
+        retryAfter: parseRetryAfter(response.headers.get('retry-after')),
+      });
+      return null;
+    }
+
+    const data = await response.json();
+    // Log only metadata, not full response to avoid exposing sensitive data
+    console.log(`API response from ${endpoint.endpoint} (${endpoint.method}): status=ok, hasData=${!!data}`);
+
+    const bicycles = parseAPIResponse(data, LISTADOS[listado].estado);
+    recordSourceAttempt(restSource.name, target, {
+      ok: true,
+      latencyMs: Date.now() - startedAt,
+      httpStatus,
+      itemCount: bicycles.length,
+    });
+    return { bicycles, hasMore: bicycles.length > 0 && checkHasMorePages(data) };
+  } catch (error) {
+    recordSourceAttempt(restSource.name, target, {
+      ok: false,
+      latencyMs: Date.now() - startedAt,
+      httpStatus,
+      itemCount: 0,
+      error: (error as Error).message,
+      code: classifyError(error),
+    });
+    throw error;
+  }
+}
+
+// Try every endpoint and method until one returns bicycles
+async function probePage(filters: SearchFilters, listado: Listado, page: number): Promise<SourcePage> {
+  for (const endpoint of LISTADOS[listado].restEndpoints) {
+    for (const method of ['POST', 'GET'] as Method[]) {
+      try {
+        console.log(`Trying API endpoint: ${endpoint} (${method})`);
+        const result = await fetchPage(filters, listado, { endpoint, method }, page);
+        if (result && result.bicycles.length > 0) {
+          workingEndpoints.set(listado, { endpoint, method });
+          return result;
+        }
+      } catch (error) {
+        console.log(`Method ${method} failed for ${endpoint}:`, (error as Error).message);
+      }
+    }
+  }
+
+  return { bicycles: [], hasMore: false };
+}
+
+async function search(filters: SearchFilters, page: number): Promise<SourcePage> {
+  const [listado] = listadosForTipo(filters.tipo);
+  const apiPage = page - 1; // The API counts pages from 0
+  const known = workingEndpoints.get(listado);
+
+  if (known) {
+    try {
+      const result = await fetchPage(filters, listado, known, apiPage);
+      if (result) return result;
+    } catch (error) {
+      console.log(`Method ${known.method} failed for ${known.endpoint}:`, (error as Error).message);
+    }
+    workingEndpoints.delete(listado);
+  }
+
+  // Only probe for the first page; later pages without a working endpoint are over
+  return apiPage === 0 ? probePage(filters, listado, apiPage) : { bicycles: [], hasMore: false };
+}
+
+async function health(): Promise<SourceHealth> {
+  const startedAt = Date.now();
+  const result = await search({ tipo: 'localizadas' }, 1).catch((error: Error) => error);
+  const latencyMs = Date.now() - startedAt;
+
+  if (result instanceof Error) {
+    return { name: restSource.name, ok: false, latencyMs, message: result.message };
+  }
+  return {
+    name: restSource.name,
+    ok: result.bicycles.length > 0,
+    latencyMs,
+    message: result.bicycles.length > 0 ? undefined : 'No endpoint returned bicycles',
+  };
+}
+
+export const restSource: BicycleSource = {
+  name: 'rest',
+  maxPages: MAX_API_PAGES,
+  search,
+  getById: (id: string): Promise<Bicycle | null> => findByIdInListing(restSource, id),
+  health,
+};
+
+// Parse different API response formats
+export function parseAPIResponse(data: any, estado: string): Bicycle[] {
+  const bicycles: Bicycle[] = [];
+  
+  try {
+    let items: any[] = [];
+    
+    // Handle different response structures
+    if (Array.isArray(data)) {
+      items = data;
+    } else if (data.content && Array.isArray(data.content)) {
+      // Spring Data Page format
+      items = data.content;
+    } else if (data.data && Array.isArray(data.data)) {
+      items = data.data;
+    } else if (data.bicicletas && Array.isArray(data.bicicletas)) {
+      items = data.bicicletas;
+    } else if (data.results && Array.isArray(data.results)) {
+      items = data.results;
+    }
+
+    for (const item of items) {
+      const photo = item.imagen || item.image || item.foto;
+      const bicycle: Bicycle = {
+        id: stableBicycleId({
+          sourceId: item.id ?? item.idBicicleta,
+          imagen: photo,
+          marca: item.marca || item.brand,
+          modelo: item.modelo || item.model,
+          color: item.color,
+          numeroSerie: item.numeroSerie || item.serialNumber || item.numSerie,
+          fechaLocalizacion: item.fechaLocalizacion || item.foundDate,
+          deposito: item.lugarLocalizacion || item.ciudad || item.city,
+          estado,
+        }),
+        marca: item.marca || item.brand || '',
+        modelo: item.modelo || item.model || '',
+        color: item.color || '',
+        numeroSerie: item.numeroSerie || item.serialNumber || item.numSerie,
+        numeroMatricula: item.numeroMatricula || item.registrationNumber || item.numMatricula,
+        ciudad: item.ciudad || item.city,
+        provincia: item.provincia || item.province,
+        descripcion: item.descripcion || item.description,
+        imagen: photo ? proxiedImageUrl(photo) : '/images/bicicletas/placeholder.svg',
+        imagenCompleta: item.imagenCompleta || photo ? proxiedImageUrl(item.imagenCompleta || photo) : '/images/bicicletas/placeholder.svg',
+        estado,
+        fechaRobo: isoDate(item.fechaRobo || item.stolenDate),
+        fechaLocalizacion: isoDate(item.fechaLocalizacion || item.foundDate),
+        lugarRobo: item.lugarRobo,
+        lugarLocalizacion: item.lugarLocalizacion,
+      };
+
+      bicycles.push(bicycle);
+    }
+  } catch (error) {
+    console.error('Error parsing API response:', error);
+  }
+  
+  return bicycles;
+}
+
+// Check if there are more pages in the response
+export function checkHasMorePages(data: any): boolean {
+  // Spring Data Page format
+  if (data.last === false || data.hasNext === true) {
+    return true;
+  }
+  if (data.totalPages && data.number < data.totalPages - 1) {
+    return true;
+  }
+  // Custom pagination format
+  if (data.hasMore === true) {
+    return true;
+  }
+  return false;
+}
+
@@ -0,0 +1,233 @@
+import type { Bicycle, BicycleTipo, SearchFilters } from '@/types/bicycle';
+import type * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import { createHash } from 'crypto';
+import type { BicycleSource } from '@/lib/sources/types';
+import { fetchImage } from '@/lib/imageFetch';
+
+// Configuration and helpers shared by the biciregistro.es sources
+
+export const SITE_URL = 'https://www.biciregistro.es';
+
+// Stop walking pages after this many empty pages in a row
+const MAX_CONSECUTIVE_EMPTY_PAGES = 2;
+
+// A single listing on biciregistro.es: found (localizadas) or missing (desaparecidas) bicycles
+export type Listado = 'localizadas' | 'desaparecidas';
+
+interface ListadoConfig {
+  estado: string; // Value of Bicycle.estado for bicycles of this listing
+  restEndpoints: string[];
+  spaUrl: string;
+  htmlUrl: string;
+}
+
+export const LISTADOS: Record<Listado, ListadoConfig> = {
+  localizadas: {
+    estado: 'localizada',
+    restEndpoints: [
+      '/v1/bicicletas/pagedLocalizadas',
+      '/v1/bicicletas/getLocalizadas',
+      '/v1/bicicletas/localizadas',
+    ],
+    spaUrl: 'https://www.biciregistro.es/#/bicicletas/foundsearch',
+    htmlUrl: 'https://biciregistro.es/bicicletas/localizadas',
+  },
+  desaparecidas: {
+    estado: 'desaparecida',
+    restEndpoints: [
+      '/v1/bicicletas/pagedDesaparecidas',
+      '/v1/bicicletas/getDesaparecidas',
+      '/v1/bicicletas/desaparecidas',
+    ],
+    // Route inferred from the found-search route of the SPA
+    spaUrl: 'https://www.biciregistro.es/#/bicicletas/lostsearch',
+    htmlUrl: 'https://biciregistro.es/bicicletas/desaparecidas',
+  },
+};
+
+// Map a tipo filter to the listings that have to be fetched
+export function listadosForTipo(tipo?: BicycleTipo): Listado[] {
+  if (tipo === 'todas') return ['localizadas', 'desaparecidas'];
+  if (tipo === 'desaparecidas') return ['desaparecidas'];
+  return ['localizadas'];
+}
+
+// Listing of a bicycle, from the prefix of its stable ID
+export function listadoForId(id: string): Listado {
+  return id.startsWith('desaparecida-') ? 'desaparecidas' : 'localizadas';
+}
+
+// Walk every page of a source until it reports the last page, returns
+// too many empty pages in a row, or reaches its page limit
+export async function collectAllPages(source: BicycleSource, filters: SearchFilters): Promise<Bicycle[]> {
+  const allBicycles: Bicycle[] = [];
+  let consecutiveEmptyPages = 0;
+
+  for (let page = 1; page <= source.maxPages; page++) {
+    const result = await source.search(filters, page);
+
+    if (result.bicycles.length === 0) {
+      consecutiveEmptyPages++;
+      console.log(`${source.name}: page ${page} returned 0 bicycles (consecutive empty: ${consecutiveEmptyPages})`);
+      if (consecutiveEmptyPages >= MAX_CONSECUTIVE_EMPTY_PAGES) break;
+    } else {
+      consecutiveEmptyPages = 0;
+      allBicycles.push(...result.bicycles);
+      console.log(`${source.name}: page ${page} added ${result.bicycles.length} bicycles (total: ${allBicycles.length})`);
+    }
+
+    if (result.hasMore === false) break;
+  }
+
+  return allBicycles;
+}
+
+// Generic getById for sources that cannot fetch a single bicycle: walk the
+// listing the ID belongs to and look for it
+export async function findByIdInListing(source: BicycleSource, id: string): Promise<Bicycle | null> {
+  const bicycles = await collectAllPages(source, { tipo: listadoForId(id) });
+  return bicycles.find(bicycle => bicycle.id === id) || null;
+}
+
+// Helper function to extract text from multiple possible selectors
+export function extractText($element: cheerio.Cheerio<AnyNode>, selectors: string[]): string {
+  for (const selector of selectors) {
+    const text = $element.find(selector).first().text().trim();
+    if (text) return text;
+  }
+  
+  return '';
+}
+
+// Helper function to extract image URL from multiple possible selectors
+export function extractImage($element: cheerio.Cheerio<AnyNode>, selectors: string[]): string {
+  for (const selector of selectors) {
+    const $img = $element.find(selector).first();
+    const src = $img.attr('src') || $img.attr('data-src');
+    if (src) {
+      // Handle relative URLs
+      if (src.startsWith('/')) {
+        return `https://biciregistro.es${src}`;
+      }
+      return src;
+    }
+  }
+  
+  return '';
+}
+
+// Helper function to extract the detail page ("Ver ficha") link of a bicycle
+export function extractFichaUrl($element: cheerio.Cheerio<AnyNode>): string | undefined {
+  const $link = $element.find('a:contains("Ver ficha"), a[href*="ficha"], [routerlink*="ficha"]').first();
+  return $link.attr('href') || $link.attr('routerlink') || $link.attr('ng-reflect-router-link') || undefined;
+}
+
+// Absolute URL of a ficha link. Links scraped from the SPA are hash routes.
+export function resolveFichaUrl(link: string | undefined, spa: boolean): string | undefined {
+  if (!link) return undefined;
+  if (/^https?:\/\//i.test(link)) return link;
+  if (link.startsWith('#')) return `${SITE_URL}/${link}`;
+
+  const path = link.startsWith('/') ? link : `/${link}`;
+  return spa ? `${SITE_URL}/#${path}` : `${SITE_URL}${path}`;
+}
+
+// Download a photo hosted on biciregistro.es
+export async function downloadImage(url: string): Promise<Buffer> {
+  const result = await fetchImage(url, {
+    headers: {
+      'Accept': 'image/webp,image/apng,image/*,*/*;q=0.8',
+      'Referer': `${SITE_URL}/`,
+    },
+  });
+
+  if (!result.ok) {
+    throw new Error(`HTTP ${result.status}: ${result.error}`);
+  }
+  return result.body;
+}
+
+// Fields used to derive a stable bicycle ID
+interface BicycleIdSource {
+  sourceId?: string | number;
+  fichaUrl?: string;
+  imagen?: string;
+  marca?: string;
+  modelo?: string;
+  color?: string;
+  numeroSerie?: string;
+  fechaLocalizacion?: string;
+  deposito?: string;
+  estado?: string;
+}
+
+// Registry id of the bicycle in a ficha link (/bicicletas/ficha/48113)
+export function fichaIdFromUrl(url: string | undefined): string | undefined {
+  return url?.match(/\/ficha\/([\w-]+)\/?(?:[?#]|$)/)?.[1];
+}
+
+// Derive an ID that stays the same for the same bicycle across scrapes and
+// sources: the registry's own id, sent by the REST API or read from the ficha
+// link of the HTML and Playwright listings. Without one, a hash of the detail
+// page link, the image path, or finally the identifying fields.
+// Missing bicycles get a prefix so they never collide with a found record of the same bike.
+export function stableBicycleId(source: BicycleIdSource): string {
+  const prefix = source.estado === 'desaparecida' ? 'desaparecida-' : '';
+
+  const registryId = source.sourceId !== undefined && source.sourceId !== null && source.sourceId !== ''
+    ? String(source.sourceId)
+    : fichaIdFromUrl(source.fichaUrl);
+  if (registryId) {
+    return `${prefix}${registryId}`;
+  }
+
+  let key: string;
+  if (source.fichaUrl) {
+    key = `ficha:${normalizeSourcePath(source.fichaUrl)}`;
+  } else if (source.imagen && !source.imagen.includes('placeholder')) {
+    key = `imagen:${normalizeSourcePath(source.imagen)}`;
+  } else {
+    key = 'datos:' + [
+      source.marca,
+      source.modelo,
+      source.color,
+      source.numeroSerie,
+      source.fechaLocalizacion,
+      source.deposito,
+    ].map(value => (value || '').trim().toLowerCase()).join('|');
+  }
+
+  return `${prefix}bike-${createHash('sha1').update(key).digest('hex').substring(0, 16)}`;
+}
+
+// Strip the biciregistro.es origin so absolute and relative links hash the same
+function normalizeSourcePath(url: string): string {
+  return url.trim().replace(/^https?:\/\/(www\.)?biciregistro\.es/i, '');
+}
+
+// Remove duplicate bicycles (same ID), filling gaps from later duplicates
+export function dedupeBicycles(bicycles: Bicycle[]): Bicycle[] {
+  const byId = new Map<string, Bicycle>();
+
+  for (const bicycle of bicycles) {
+    const existing = byId.get(bicycle.id);
+    if (!existing) {
+      byId.set(bicycle.id, bicycle);
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(bicycle) as [keyof Bicycle, string | undefined][]) {
+      if (value && !existing[key]) {
+        existing[key] = value;
+      }
+    }
+  }
+
+  if (byId.size < bicycles.length) {
+    console.log(`Removed ${bicycles.length - byId.size} duplicate bicycles`);
+  }
+
+  return Array.from(byId.values());
+}
+
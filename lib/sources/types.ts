@@ -0,0 +1,26 @@
+import type { Bicycle, SearchFilters } from '@/types/bicycle';
+
+// Common interface of every bicycle data source (biciregistro.es strategies,
+// mock data, and any other regional registry added later)
+
+export interface SourcePage {
+  bicycles: Bicycle[];
+  // false when this is the last page, null when the source cannot tell
+  hasMore: boolean | null;
+}
+
+export interface SourceHealth {
+  name: string;
+  ok: boolean;
+  latencyMs: number;
+  message?: string;
+}
+
+export interface BicycleSource {
+  name: string;
+  maxPages: number; // Safety limit when walking every page
+  // Fetch one page (1-based) of results. filters.tipo selects a single listing.
+  search(filters: SearchFilters, page: number): Promise<SourcePage>;
+  getById(id: string): Promise<Bicycle | null>;
+  health(): Promise<SourceHealth>;
+}
@@ -0,0 +1,187 @@
+import type { ApiErrorCode, Bicycle, SearchFilters } from '@/types/bicycle';
+import { searchSources } from '@/lib/sources/registry';
+import { restSource } from '@/lib/sources/rest';
+import { collectAllPages, dedupeBicycles, listadosForTipo } from '@/lib/sources/shared';
+import { mergeBicycles, saveSyncFailure, saveSyncResult } from '@/lib/bicycleStore';
+import { runSavedSearches } from '@/lib/savedSearches';
+import { fetchColorOptions, inferMissingColors } from '@/lib/colors';
+import { fetchBrandOptions } from '@/lib/brands';
+import { apiError } from '@/lib/apiErrors';
+
+// Background ingestion job: scrapes biciregistro.es and fills the local store
+
+const DEFAULT_SYNC_INTERVAL_MINUTES = 60;
+// How often the same brand / colour may be asked to the registry again
+const TARGETED_REFRESH_MS = 15 * 60 * 1000;
+const MAX_TARGETED_KEYS = 500;
+// Targeted refreshes waiting for the next sync, and how many a sync runs
+const MAX_PENDING_TARGETED = 50;
+const MAX_TARGETED_PER_SYNC = 10;
+// How long the brand / colour ids of the registry are trusted
+const KNOWN_IDS_TTL_MS = 60 * 60 * 1000;
+
+export interface SyncResult {
+  success: boolean;
+  count: number;
+  syncedAt: string;
+  error?: string;
+  code?: ApiErrorCode;
+}
+
+let syncInFlight: Promise<SyncResult> | null = null;
+let schedulerStarted = false;
+// Key of a targeted refresh -> when it last started
+const targetedRefreshes = new Map<string, number>();
+// Key of a targeted refresh -> its filters, until the next sync runs it
+const pendingRefreshes = new Map<string, SearchFilters>();
+let knownIds: { brands: Set<string>; colors: Set<string>; expiresAt: number } | null = null;
+
+// Run a full sync. Concurrent callers share the same in-flight run.
+export function runSync(): Promise<SyncResult> {
+  if (!syncInFlight) {
+    syncInFlight = doSync().finally(() => {
+      syncInFlight = null;
+    });
+  }
+  return syncInFlight;
+}
+
+async function doSync(): Promise<SyncResult> {
+  const syncedAt = new Date().toISOString();
+  console.log('Starting bicycle sync...');
+
+  try {
+    const { bicycles, sources, failure } = await searchSources({ tipo: 'todas' });
+
+    // The sources return an empty array when every one of them fails, and the
+    // registry always lists found bicycles, so treat empty as a failed sync
+    if (bicycles.length === 0) {
+      const error = 'No bicycles returned by biciregistro.es';
+      const code = failure?.code || 'UPSTREAM_UNAVAILABLE';
+      await saveSyncFailure(apiError(code, error, failure?.retryAfter), syncedAt, sources);
+      console.log(`Bicycle sync failed: ${error} (${code})`);
+      return { success: false, count: 0, syncedAt, error, code };
+    }
+
+    await saveSyncResult(bicycles, syncedAt, sources);
+    console.log(`✓ Bicycle sync stored ${bicycles.length} bicycles`);
+
+    // Read the frame color of new photos before alerting, so color searches see it
+    try {
+      const analysed = await inferMissingColors();
+      if (analysed > 0) console.log(`✓ Read the color of ${analysed} bicycle photos`);
+    } catch (error) {
+      console.error('Color inference failed:', error);
+    }
+
+    await runTargetedRefreshes();
+
+    // Alert saved searches about bicycles that appeared in this sync
+    try {
+      await runSavedSearches();
+    } catch (error) {
+      console.error('Saved searches run failed:', error);
+    }
+    return { success: true, count: bicycles.length, syncedAt };
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error('Bicycle sync error:', error);
+    // The sources report their own failures; what gets here is ours (e.g. writing the store)
+    await saveSyncFailure(apiError('INTERNAL_ERROR', message), syncedAt);
+    return { success: false, count: 0, syncedAt, error: message, code: 'INTERNAL_ERROR' };
+  }
+}
+
+// Targeted refresh for a search that names a known brand or colour: ask the
+// registry's REST search for it, with the ids in the request body (idMarca /
+// idColor), and merge what it returns into the index. The full sync stops
+// after a fixed number of pages per listing, so this is how the registry's
+// own filtering reaches bicycles beyond them.
+//
+// Searches only queue the refresh; the next sync runs it, one at a time, so
+// public traffic never starts crawls of its own. Only ids that
+// /api/config/brands and /api/config/colors list are queued, and each
+// brand / colour at most every 15 minutes.
+export async function requestTargetedRefresh(filters: SearchFilters): Promise<void> {
+  if (!filters.marcaId && !filters.colorId) return;
+
+  const key = targetedKey(filters);
+  if (pendingRefreshes.has(key) || !targetedRefreshDue(key)) return;
+  if (pendingRefreshes.size >= MAX_PENDING_TARGETED) return;
+
+  const { brands, colors } = await loadKnownIds();
+  if (filters.marcaId && !brands.has(filters.marcaId)) return;
+  if (filters.colorId && !colors.has(filters.colorId)) return;
+
+  if (pendingRefreshes.size >= MAX_PENDING_TARGETED) return;
+  const { tipo, marca, marcaId, color, colorId } = filters;
+  pendingRefreshes.set(key, { tipo, marca, marcaId, color, colorId });
+}
+
+function targetedKey(filters: SearchFilters): string {
+  return `${filters.tipo || ''}|${filters.marcaId || ''}|${filters.colorId || ''}`;
+}
+
+function targetedRefreshDue(key: string): boolean {
+  const last = targetedRefreshes.get(key);
+  return last === undefined || Date.now() - last >= TARGETED_REFRESH_MS;
+}
+
+// Brand and colour ids of the registry, read again every hour
+async function loadKnownIds(): Promise<{ brands: Set<string>; colors: Set<string> }> {
+  if (!knownIds || knownIds.expiresAt < Date.now()) {
+    const [brands, colors] = await Promise.all([fetchBrandOptions(), fetchColorOptions()]);
+    knownIds = {
+      brands: new Set(brands.map(option => String(option.id))),
+      colors: new Set(colors.map(option => String(option.id))),
+      expiresAt: Date.now() + KNOWN_IDS_TTL_MS,
+    };
+  }
+  return knownIds;
+}
+
+// Run the queued targeted refreshes, oldest first; what does not fit in this
+// sync waits for the next one
+async function runTargetedRefreshes(): Promise<void> {
+  for (const [key, filters] of [...pendingRefreshes].slice(0, MAX_TARGETED_PER_SYNC)) {
+    pendingRefreshes.delete(key);
+    if (!targetedRefreshDue(key)) continue;
+    targetedRefreshes.delete(key);
+    targetedRefreshes.set(key, Date.now());
+    if (targetedRefreshes.size > MAX_TARGETED_KEYS) targetedRefreshes.delete(targetedRefreshes.keys().next().value as string);
+
+    try {
+      const bicycles: Bicycle[] = [];
+      for (const listado of listadosForTipo(filters.tipo)) {
+        bicycles.push(...await collectAllPages(restSource, { ...filters, tipo: listado }));
+      }
+      await mergeBicycles(dedupeBicycles(bicycles), new Date().toISOString());
+      console.log(`✓ Targeted refresh ${key} merged ${bicycles.length} bicycles`);
+    } catch (error) {
+      console.error(`Targeted refresh ${key} failed:`, error);
+    }
+  }
+}
+
+// Start the periodic sync. Set BICYCLE_SYNC_INTERVAL_MINUTES=0 to disable it
+// (e.g. when an external cron calls POST /api/sync instead).
+export function startSyncScheduler(): void {
+  if (schedulerStarted) return;
+
+  const minutes = Number(process.env.BICYCLE_SYNC_INTERVAL_MINUTES ?? DEFAULT_SYNC_INTERVAL_MINUTES);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    console.log('Bicycle sync scheduler disabled');
+    return;
+  }
+
+  schedulerStarted = true;
+  console.log(`Bicycle sync scheduled every ${minutes} minutes`);
+
+  const tick = () => {
+    runSync().catch(error => console.error('Scheduled bicycle sync failed:', error));
+  };
+
+  tick();
+  const timer = setInterval(tick, minutes * 60 * 1000);
+  timer.unref?.();
+}
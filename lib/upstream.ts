@@ -0,0 +1,171 @@
+import { parseRetryAfter } from '@/lib/apiErrors';
+import { createTokenBucket } from '@/lib/rateLimit';
+import { isPathAllowed, parseRobots, type RobotsRules } from '@/lib/robots';
+import { APP_URL } from '@/lib/appUrl';
+
+// Every request this server sends to biciregistro.es goes through here (the
+// sources, fichas, brands, colours and the image proxy), so the registry sees
+// one polite client:
+// - it says who it is (UPSTREAM_USER_AGENT)
+// - it skips whatever robots.txt disallows for that agent
+// - a single token bucket caps the rate across all of them
+//   (UPSTREAM_RATE_PER_SECOND, bursts of UPSTREAM_BURST); a request that
+//   would queue for longer than UPSTREAM_MAX_QUEUE_SECONDS is refused
+// - a 429, or a 503 with Retry-After, pauses every request for as long as the
+//   registry asked, and the request is retried once the pause is over
+
+export const USER_AGENT = process.env.UPSTREAM_USER_AGENT || `BiciregistroSearch/0.1 (+${APP_URL})`;
+
+// Product token of the user agent, for matching robots.txt groups
+const ROBOTS_AGENT = USER_AGENT.split(/[/\s]/)[0];
+const CHECK_ROBOTS = !['0', 'false'].includes((process.env.UPSTREAM_CHECK_ROBOTS || '').toLowerCase());
+
+const bucket = createTokenBucket({
+  ratePerSecond: Number(process.env.UPSTREAM_RATE_PER_SECOND) || 4,
+  burst: Number(process.env.UPSTREAM_BURST) || 8,
+});
+
+const DEFAULT_RETRIES = 1;
+// Longer pauses fail the request instead of holding it
+const MAX_PAUSE_WAIT_MS = 30 * 1000;
+// Longest wait for a token of the bucket; past it the request is refused
+const MAX_QUEUE_WAIT_MS = (Number(process.env.UPSTREAM_MAX_QUEUE_SECONDS) || 10) * 1000;
+// Pause after a 429 without Retry-After, doubled on every retry
+const BASE_BACKOFF_SECONDS = 5;
+
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+// A robots.txt that could not be read is tried again sooner
+const ROBOTS_ERROR_TTL_MS = 60 * 1000;
+// What an unreachable robots.txt means (RFC 9309): nothing may be crawled
+const DISALLOW_ALL = parseRobots('User-agent: *\nDisallow: /', ROBOTS_AGENT);
+const ROBOTS_TIMEOUT_MS = 10000;
+const MAX_ROBOTS_REDIRECTS = 5;
+
+let pausedUntil = 0;
+const robotsByOrigin = new Map<string, Promise<{ rules: RobotsRules; expiresAt: number }>>();
+
+export interface UpstreamInit extends RequestInit {
+  retries?: number; // Retries of a 429 / 503 answer
+  timeoutMs?: number; // Per attempt, counted once the request is let through
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function sameSite(a: URL, b: URL): boolean {
+  return a.hostname.replace(/^www\./, '') === b.hostname.replace(/^www\./, '');
+}
+
+// Download and parse the robots.txt of an origin, following redirects within
+// the same site only. A missing one (4xx, or redirected elsewhere) allows
+// everything; a 5xx or network error disallows everything until a retry
+// reads it.
+async function loadRobots(origin: string): Promise<{ rules: RobotsRules; expiresAt: number }> {
+  let url = new URL('/robots.txt', origin);
+  try {
+    for (let hop = 0; hop <= MAX_ROBOTS_REDIRECTS; hop++) {
+      await sleep(bucket.reserve());
+      const response = await fetch(url, {
+        headers: { 'User-Agent': USER_AGENT },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        const next = new URL(location, url);
+        if (!sameSite(next, url)) break;
+        url = next;
+        continue;
+      }
+
+      if (response.ok) {
+        return { rules: parseRobots(await response.text(), ROBOTS_AGENT), expiresAt: Date.now() + ROBOTS_TTL_MS };
+      }
+      await response.body?.cancel();
+      if (response.status >= 400 && response.status < 500) {
+        return { rules: [], expiresAt: Date.now() + ROBOTS_TTL_MS };
+      }
+      console.log(`Could not read ${url}: HTTP ${response.status}`);
+      return { rules: DISALLOW_ALL, expiresAt: Date.now() + ROBOTS_ERROR_TTL_MS };
+    }
+  } catch (error) {
+    console.log(`Could not read ${url}:`, (error as Error).message);
+    return { rules: DISALLOW_ALL, expiresAt: Date.now() + ROBOTS_ERROR_TTL_MS };
+  }
+  return { rules: [], expiresAt: Date.now() + ROBOTS_ERROR_TTL_MS };
+}
+
+// Whether robots.txt lets us request `url`
+export async function robotsAllow(url: string): Promise<boolean> {
+  if (!CHECK_ROBOTS) return true;
+
+  const { origin, pathname, search } = new URL(url);
+  let robots = robotsByOrigin.get(origin);
+  if (!robots || (await robots).expiresAt < Date.now()) {
+    robots = loadRobots(origin);
+    robotsByOrigin.set(origin, robots);
+  }
+  return isPathAllowed((await robots).rules, pathname + search);
+}
+
+// Wait until a request to `url` may be sent. Throws when robots.txt
+// disallows it; returns the seconds to wait before retrying when the pause
+// or the queue is too long to wait for, or 0 once the request may go ahead.
+export async function upstreamPermit(url: string): Promise<number> {
+  if (!(await robotsAllow(url))) {
+    throw new Error(`robots.txt disallows ${url}`);
+  }
+
+  const pause = pausedUntil - Date.now();
+  if (pause > MAX_PAUSE_WAIT_MS) return Math.ceil(pause / 1000);
+  if (pause > 0) await sleep(pause);
+
+  const wait = bucket.reserve(MAX_QUEUE_WAIT_MS);
+  if (wait > MAX_QUEUE_WAIT_MS) return Math.ceil(wait / 1000);
+  await sleep(wait);
+  return 0;
+}
+
+// upstreamPermit for pages Playwright loads, which cannot be answered with a
+// 429 of our own: a pause or queue too long to wait for is an error
+export async function permitNavigation(url: string): Promise<void> {
+  const pause = await upstreamPermit(url);
+  if (pause > 0) throw new Error(`HTTP 429: requests to biciregistro.es must wait ${pause}s`);
+}
+
+// fetch() for biciregistro.es. A pause or queue that is too long is answered
+// with a 429 of our own, so callers handle it like the registry's.
+export async function upstreamFetch(
+  url: string,
+  { retries = DEFAULT_RETRIES, timeoutMs, ...init }: UpstreamInit = {}
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set('User-Agent', USER_AGENT);
+
+  for (let attempt = 0; ; attempt++) {
+    const pause = await upstreamPermit(url);
+    if (pause > 0) {
+      return new Response(null, { status: 429, statusText: 'Too Many Requests', headers: { 'Retry-After': String(pause) } });
+    }
+
+    const response = await fetch(url, {
+      ...init,
+      headers,
+      ...(timeoutMs && { signal: AbortSignal.timeout(timeoutMs) }),
+    });
+
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    const throttled = response.status === 429 || (response.status === 503 && retryAfter !== undefined);
+    if (!throttled) return response;
+
+    const seconds = retryAfter ?? BASE_BACKOFF_SECONDS * 2 ** attempt;
+    pausedUntil = Math.max(pausedUntil, Date.now() + seconds * 1000);
+    console.log(`biciregistro.es answered ${response.status}, pausing requests for ${seconds}s`);
+
+    if (attempt >= retries || seconds * 1000 > MAX_PAUSE_WAIT_MS) return response;
+    await response.body?.cancel();
+  }
+}
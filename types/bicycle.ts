@@ -12,18 +12,174 @@ export interface Bicycle {
   descripcion?: string; // Description
   imagen?: string; // Image URL
   imagenCompleta?: string; // Full resolution image URL
-  estado?: string; // Status (localizada, robada, etc.)
+  estado?: string; // Status (localizada, desaparecida)
   fechaLocalizacion?: string; // Found date
   lugarLocalizacion?: string; // Found location
+  deposito?: string; // Depósito (municipal pound) holding a found bicycle
+  origen?: string; // Where the record comes from (biciregistro, socio)
+  vistoPrimeraVez?: string; // First time the sync job saw this bicycle (ISO)
+  vistoUltimaVez?: string; // Last time the sync job saw this bicycle (ISO)
+  fichaUrl?: string; // Detail page ("Ver ficha") on biciregistro.es
+  colorInferido?: string; // Frame color read from the photo ("Negro/Rojo")
+}
+
+// A search result; distanciaKm is only set in near / nearCity searches
+export interface NearbyBicycle extends Bicycle {
+  distanciaKm?: number; // Distance to the center of the search
+}
+
+// Depósito (municipal pound) holding a found bicycle
+export interface Deposito {
+  nombre?: string;
+  direccion?: string;
+  horario?: string;
+  telefono?: string;
+}
+
+// Bicycles grouped by the depósito or place they are at, for the map
+export interface BicycleLocation {
+  key: string;
+  nombre: string; // Depósito or place as written by the registry
+  municipio: string; // Geocoded municipality ('' when only the province is known)
+  provincia: string;
+  lat: number;
+  lng: number;
+  precision: 'municipio' | 'provincia';
+  count: number;
+  bicycles: Pick<Bicycle, 'id' | 'marca' | 'modelo' | 'color' | 'imagen' | 'estado'>[];
+}
+
+// A bicycle with the data of its full ficha
+export interface BicycleDetail extends Bicycle {
+  imagenes: string[]; // Every photo, proxied
+  datosDeposito?: Deposito;
+  datosRegistro: Record<string, string>; // Other labelled fields of the ficha
 }
 
 export interface SearchFilters {
   marca?: string;
+  marcaId?: string; // Id from /api/config/brands when a known brand was chosen
   modelo?: string;
   color?: string;
+  colorId?: string; // Id from /api/config/colors when a known color was chosen
   numeroSerie?: string;
   numeroMatricula?: string;
   ciudad?: string;
   provincia?: string;
   searchTerm?: string; // General search term
+  near?: string; // "lat,lng" to search around a point
+  nearCity?: string; // Municipality or province to search around
+  radiusKm?: string; // Radius of a near / nearCity search
+  fechaRoboDesde?: string; // yyyy-mm-dd, inclusive
+  fechaRoboHasta?: string;
+  fechaLocalizacionDesde?: string;
+  fechaLocalizacionHasta?: string;
+  tipo?: BicycleTipo; // Which listing to search (defaults to localizadas)
+}
+
+// Listings published by biciregistro.es
+export type BicycleTipo = 'localizadas' | 'desaparecidas' | 'todas';
+
+export type SortField = 'relevancia' | 'fechaLocalizacion' | 'marca' | 'ciudad' | 'distancia';
+
+export type SortOrder = 'asc' | 'desc';
+
+// Failure modes of the bicycle API (HTTP statuses in lib/apiErrors.ts)
+export type ApiErrorCode =
+  | 'INVALID_FILTER'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_AUTH_REQUIRED' // biciregistro.es answers 401 / 403
+  | 'UPSTREAM_LAYOUT_CHANGED' // biciregistro.es answers, but nothing can be parsed
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'BROWSER_UNAVAILABLE' // Chromium cannot be launched for the Playwright source
+  | 'RATE_LIMITED'
+  | 'INTERNAL_ERROR';
+
+export interface ApiError {
+  code: ApiErrorCode;
+  message: string;
+  retryAfter?: number; // Seconds; missing when retrying will not help
+}
+
+export interface BicyclesResponse {
+  success: boolean;
+  count: number; // Bicycles in this page
+  total: number; // Bicycles matching the filters
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  data: NearbyBicycle[];
+  near?: NearOrigin; // Set for near / nearCity searches
+  lastSyncAt: string | null;
+  degraded: boolean; // biciregistro.es could not be fully read: results may be incomplete
+  syncing: boolean; // No sync finished yet and one is running in the background
+  source: string | null; // Data source(s) the results came from
+  error?: string;
+  code?: ApiErrorCode;
+  retryAfter?: number;
+}
+
+// Center and radius of a search by distance
+export interface NearOrigin {
+  lat: number;
+  lng: number;
+  nombre?: string; // Resolved place of a nearCity search
+  radiusKm: number;
+}
+
+export interface BicycleMapResponse {
+  success: boolean;
+  count: number; // Locations
+  total: number; // Bicycles matching the filters
+  unlocated: number; // Bicycles whose place is not in the gazetteer
+  data: BicycleLocation[];
+  lastSyncAt: string | null;
+  degraded: boolean;
+  syncing: boolean;
+  source: string | null;
+  error?: string;
+  code?: ApiErrorCode;
+  retryAfter?: number;
+}
+
+// A bicycle whose photo looks like an uploaded one
+export interface BicycleVisualMatch {
+  bicycle: Bicycle;
+  score: number; // 0..1, visual similarity of the photos
+}
+
+export interface BicycleMatch {
+  bicycle: Bicycle;
+  score: number; // 0..1, how likely both records are the same bicycle
+  reasons: string[]; // Human readable reasons, in Spanish
+}
+
+// Where the alerts of a saved search are sent
+export type NotificationChannel =
+  | { type: 'email'; to: string }
+  | { type: 'webhook'; url: string };
+
+export interface SavedSearch {
+  id: string;
+  nombre: string; // Name given by the user
+  filters: SearchFilters;
+  channels: NotificationChannel[];
+  seenIds: string[]; // Bicycles already reported to every channel of this search
+  // Bicycles reported to some channels only, by channel (see channelKey), so a
+  // failed channel is retried without alerting the others twice
+  deliveredIds?: Record<string, string[]>;
+  // Secret that lets whoever saved the search delete it without ADMIN_TOKEN
+  // (missing in searches saved before it existed)
+  unsubscribeToken?: string;
+  // Email channels that were not confirmed yet: channel key -> secret of the
+  // confirmation link sent to that address. They get no alerts until then.
+  pendingConfirmations?: Record<string, string>;
+  createdAt: string; // ISO
+  lastRunAt: string | null; // ISO
+}
+
+// Item of the lists served by /api/config/brands and /api/config/colors
+export interface ConfigOption {
+  id: string | number;
+  label: string;
 }
@@ -0,0 +1,14 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname) },
+  },
+  test: {
+    environment: 'node',
+    include: ['**/__tests__/**/*.test.ts'],
+    // The parsers log every selector they try
+    silent: true,
+  },
+});